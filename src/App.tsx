@@ -5,75 +5,303 @@
  * and manages the overall game state and user interactions.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useGameLogic } from './hooks/useGameLogic';
 import { useGameInput } from './hooks/useKeyboardInput';
+import { useDemoMode } from './hooks/useDemoMode';
+import { useShareLink } from './hooks/useShareLink';
+import { useGhostRace } from './hooks/useGhostRace';
+import { useSoundEffects } from './hooks/useSoundEffects';
+import { useMusic } from './hooks/useMusic';
 import { useGameAchievements } from './hooks/useGameLogic';
 import GameBoard from './components/GameBoard';
+import CanvasGameBoard from './components/CanvasGameBoard';
 import GameControls from './components/GameControls';
 import ScoreDisplay from './components/ScoreDisplay';
 import GameOverModal from './components/GameOverModal';
 import MobileControls from './components/MobileControls';
-import { DEFAULT_GAME_CONFIG } from './types/game.types';
+import LevelEditor from './components/LevelEditor';
+import ReplayViewer from './components/ReplayViewer';
+import GameHistoryPanel from './components/GameHistoryPanel';
+import StageSelect from './components/StageSelect';
+import StageCompleteModal from './components/StageCompleteModal';
+import SettingsDialog from './components/SettingsDialog';
+import { useCustomLevels, useGameSettings } from './hooks/useLocalStorage';
+import {
+  BoardSnake,
+  CampaignStage,
+  Difficulty,
+  GameConfig,
+  GameSetup,
+  LevelDefinition,
+  ParseResult,
+  Replay,
+  SharedGame,
+  DEFAULT_GAME_CONFIG,
+  DEFAULT_GAME_SETUP
+} from './types/game.types';
 import { isMobileDevice } from './utils/gameHelpers';
+import { parseSeed } from './engine/random';
+import { getBuiltinMaps } from './engine/builtinLevels';
+import { validateLevel } from './engine/levelFormat';
+import { hasEffect } from './engine/powerUps';
+import { getHumanScore, getWinner } from './engine/players';
+import { getHint } from './engine/hints';
+import { CAMPAIGN_STAGES, describeGoal, getGoalProgress, getStage, getStageSetup } from './engine/campaign';
+import { getConfigDifficulty, getDifficultyConfig } from './engine/difficulty';
 
 function App() {
+  // Options for the next game
+  const [gameSetup, setGameSetup] = useState<GameSetup>(DEFAULT_GAME_SETUP);
+
+  // Current screen: the game, the level editor, the game history, a replay or the campaign stages
+  const [view, setView] = useState<'game' | 'editor' | 'history' | 'replay' | 'campaign'>('game');
+
+  // Replay being watched, and the screen to go back to afterwards
+  const [watchedReplay, setWatchedReplay] = useState<Replay | null>(null);
+  const [replayReturnView, setReplayReturnView] = useState<'game' | 'history'>('game');
+
+  // Level kept open in the editor, and the one being test-played from it
+  const [editorLevel, setEditorLevel] = useState<LevelDefinition | null>(null);
+  const [testLevel, setTestLevel] = useState<LevelDefinition | null>(null);
+
+  // Challenge opened from a share link, and why a link couldn't be opened
+  const [challenge, setChallenge] = useState<Extract<SharedGame, {kind: 'CHALLENGE'}> | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  // Maps to choose from (built-in, saved, under test and from a challenge), and the selected one
+  const builtinMaps = useMemo(() => getBuiltinMaps(DEFAULT_GAME_CONFIG), []);
+  const { customLevels, saveLevel, deleteLevel } = useCustomLevels();
+  const maps = useMemo(() => {
+    const available = [
+      ...builtinMaps,
+      // Levels saved before a rule was tightened (e.g. room for food) stay in the editor only
+      ...customLevels.filter(level => level.id !== testLevel?.id && validateLevel(level) === null),
+      ...(testLevel ? [testLevel] : []),
+    ];
+    const challengeMap = challenge?.map;
+    return challengeMap && !available.some(map => map.id === challengeMap.id)
+      ? [...available, challengeMap]
+      : available;
+  }, [builtinMaps, customLevels, testLevel, challenge]);
+  const selectedStage = getStage(gameSetup.stageId);
+  const selectedMap = selectedStage?.map ?? maps.find(map => map.id === gameSetup.mapId) ?? maps[0];
+
+  // Saved settings, and the configuration of the selected difficulty
+  const { settings, updateSetting, updateSettings, resetSettings } = useGameSettings();
+  const activeConfig = getDifficultyConfig(settings.difficulty, settings.customConfig);
+
+  const handleDifficultyChange = useCallback((difficulty: Difficulty) => {
+    updateSetting('difficulty', difficulty);
+  }, [updateSetting]);
+
+  const handleCustomConfigChange = useCallback((config: GameConfig) => {
+    updateSetting('customConfig', config);
+  }, [updateSetting]);
+
   // Game logic hook
   const {
     gameData,
+    interpolation,
     changeDirection,
     startGame,
     pauseGame,
     resumeGame,
     resetGame,
     isGameOver,
+    isStageComplete,
     isPlaying,
     isPaused,
-  } = useGameLogic();
+    gameHistory,
+    clearHistory,
+    bestRun,
+    stageResults,
+    events,
+  } = useGameLogic(gameSetup, selectedMap, activeConfig);
+
+  // Sound effects for the game's events
+  const { playSound } = useSoundEffects({ events, enabled: settings.soundEnabled, volume: settings.volume });
+
+  // Background music while a game runs
+  useMusic({
+    events,
+    enabled: settings.soundEnabled && settings.musicEnabled,
+    gameState: gameData.gameState,
+    isPaused,
+    gameSpeed: gameData.gameSpeed,
+  });
+
+  // Ghost of the best run on this seed, raced when turned on
+  const [ghostRace, setGhostRace] = useState(false);
+  const ghostData = useGhostRace(gameData, ghostRace ? bestRun : null);
+  const raceDelta = ghostData ? gameData.score - getHumanScore(ghostData.players) : undefined;
 
   // Game achievements
   useGameAchievements(gameData.score);
 
+  // Attract mode while the game waits to be started
+  const { demoData, interpolation: demoInterpolation, isDemoRunning } = useDemoMode({
+    enabled: view === 'game' && gameData.gameState === 'READY',
+    setup: gameSetup,
+    map: selectedMap,
+    config: activeConfig,
+  });
+
+  // The board shows the demo game while it runs
+  const boardData = isDemoRunning ? demoData : gameData;
+
+  // Seed typed by the player (empty means a random seed)
+  const [seedInput, setSeedInput] = useState('');
+
+  // Start a game with the entered seed
+  const handleStart = useCallback(() => {
+    startGame(parseSeed(seedInput) ?? undefined);
+  }, [startGame, seedInput]);
+
   // Input handling
   const { disableInput, enableInput } = useGameInput({
     onDirectionChange: changeDirection,
     onPause: isPlaying ? pauseGame : undefined,
-    onStart: startGame,
+    onStart: handleStart,
     onReset: resetGame,
-    enabled: true,
+    enabled: view === 'game',
+    twoPlayer: gameData.setup.mode === 'VERSUS',
   });
 
-  // Modal state
+  // Modal state (game over or stage clear)
   const [showGameOverModal, setShowGameOverModal] = useState(false);
 
-  // Handle game over
+  // Settings dialog state
+  const [showSettings, setShowSettings] = useState(false);
+
+  // Moving between screens and dialogs clicks
   useEffect(() => {
-    if (isGameOver) {
-      setShowGameOverModal(true);
+    playSound('MENU');
+  }, [view, showSettings, playSound]);
+
+  // Handle game over and cleared stages
+  useEffect(() => {
+    setShowGameOverModal(isGameOver || isStageComplete);
+  }, [isGameOver, isStageComplete]);
+
+  // Game keys are off while a game's result or the settings are shown
+  useEffect(() => {
+    if (isGameOver || isStageComplete || showSettings) {
       disableInput();
     } else {
-      setShowGameOverModal(false);
       enableInput();
     }
-  }, [isGameOver, disableInput, enableInput]);
+  }, [isGameOver, isStageComplete, showSettings, disableInput, enableInput]);
+
+  // Open the settings, pausing a running game
+  const handleOpenSettings = useCallback(() => {
+    if (isPlaying) pauseGame();
+    setShowSettings(true);
+  }, [isPlaying, pauseGame]);
+
+  const handleCloseSettings = useCallback(() => {
+    setShowSettings(false);
+  }, []);
+
+  // Recolour the app for the chosen theme
+  useEffect(() => {
+    document.documentElement.dataset.theme = settings.theme;
+  }, [settings.theme]);
 
   // Handle play again
   const handlePlayAgain = useCallback(() => {
     setShowGameOverModal(false);
-    startGame();
-  }, [startGame]);
+    handleStart();
+  }, [handleStart]);
 
   // Handle modal close
   const handleCloseModal = useCallback(() => {
     setShowGameOverModal(false);
   }, []);
 
+  // Switch to the editor (only between games)
+  const handleOpenEditor = useCallback(() => {
+    setView('editor');
+  }, []);
+
+  // Watch a replay, coming back to the current screen when it's closed
+  const handleWatchReplay = useCallback((replay: Replay) => {
+    setWatchedReplay(replay);
+    setReplayReturnView(view === 'history' ? 'history' : 'game');
+    setView('replay');
+  }, [view]);
+
+  // Open a shared replay in the viewer, or get a shared challenge ready to start
+  const handleSharedGame = useCallback((result: ParseResult<SharedGame>) => {
+    setShowGameOverModal(false);
+    if (!result.ok) {
+      setLinkError(result.error);
+      return;
+    }
+    setLinkError(null);
+
+    const shared = result.value;
+    if (shared.kind === 'REPLAY') {
+      setWatchedReplay(shared.replay);
+      setReplayReturnView('game');
+      setView('replay');
+      return;
+    }
+
+    // Play the challenge at its difficulty, taking its values as the custom ones if no preset has them
+    const difficulty = getConfigDifficulty(shared.config);
+    updateSettings(difficulty === 'custom' ? { difficulty, customConfig: shared.config } : { difficulty });
+
+    setChallenge(shared);
+    resetGame();
+    setGameSetup(shared.setup);
+    setSeedInput(String(shared.seed));
+    setView('game');
+  }, [resetGame, updateSettings]);
+
+  useShareLink(handleSharedGame);
+
+  // Replay of the game that just ended, once it's in the history
+  const newestReplay = gameHistory[0]?.replay;
+  const lastReplay = (isGameOver || isStageComplete) && newestReplay?.seed === gameData.seed && newestReplay.ticks === gameData.tickCount
+    ? newestReplay
+    : undefined;
+
+  // Campaign stage being played, and its position in the campaign
+  const playedStage = getStage(gameData.setup.stageId);
+  const playedStageIndex = playedStage ? CAMPAIGN_STAGES.indexOf(playedStage) : -1;
+  const nextStage = CAMPAIGN_STAGES[playedStageIndex + 1];
+  const stageProgress = playedStage ? getGoalProgress(gameData, playedStage.goal) : null;
+
+  // Get a campaign stage ready to start on the game screen
+  const handlePlayStage = useCallback((stage: CampaignStage) => {
+    setShowGameOverModal(false);
+    resetGame();
+    setGameSetup(getStageSetup(stage));
+    setView('game');
+  }, [resetGame]);
+
+  // Leave a cleared stage for the stage list
+  const handleStageSelect = useCallback(() => {
+    setShowGameOverModal(false);
+    setView('campaign');
+  }, []);
+
+  // Play the edited level on the game screen
+  const handleTestPlay = useCallback((level: LevelDefinition) => {
+    setEditorLevel(level);
+    setTestLevel(level);
+    resetGame();
+    setGameSetup(prev => ({ ...prev, mapId: level.id }));
+    setView('game');
+  }, [resetGame]);
+
   // Handle cell click for mobile
   const handleCellClick = useCallback((position: { x: number; y: number }) => {
     if (!isMobileDevice() || !isPlaying) return;
     
     // Simple mobile direction logic - move towards clicked cell
-    const head = gameData.snake.segments[0];
+    const head = gameData.players[0].snake.segments[0];
     const dx = position.x - head.x;
     const dy = position.y - head.y;
     
@@ -82,7 +310,38 @@ function App() {
     } else if (dy !== 0) {
       changeDirection(dy > 0 ? 'DOWN' : 'UP');
     }
-  }, [isPlaying, gameData.snake.segments, changeDirection]);
+  }, [isPlaying, gameData.players, changeDirection]);
+
+  // Snakes drawn on the board, in their players' colours, with practice
+  // hints for the human players in a running practice game
+  const boardSnakes = useMemo<BoardSnake[]>(() => boardData.players.map(player => ({
+    snake: player.snake,
+    style: player.style,
+    ghost: hasEffect(player.activeEffects, 'GHOST'),
+    eliminated: !player.alive && boardData.players.length > 1,
+    hint: boardData.setup.practice && !isDemoRunning && boardData.gameState === 'PLAYING' && player.alive && player.bot === null
+      ? getHint(boardData, player)
+      : undefined,
+  })), [boardData, isDemoRunning]);
+
+  // Raced ghost snakes go first so the live snakes are drawn over them
+  const racerSnakes = useMemo<BoardSnake[]>(() => (ghostData?.players ?? [])
+    .filter(player => player.bot === null)
+    .map(player => ({
+      snake: player.snake,
+      style: player.style,
+      racer: true,
+      eliminated: !player.alive,
+    })), [ghostData]);
+  const allSnakes = useMemo(() => [...racerSnakes, ...boardSnakes], [racerSnakes, boardSnakes]);
+
+  // Players heading into a dead end
+  const deadEndWarnings = boardSnakes
+    .filter(boardSnake => boardSnake.hint?.deadEnd)
+    .map(boardSnake => boardSnake.style.name);
+
+  // Board drawn with the renderer chosen in the settings
+  const Board = settings.renderer === 'canvas' ? CanvasGameBoard : GameBoard;
 
   // Prevent scrolling on mobile during game
   useEffect(() => {
@@ -100,12 +359,12 @@ function App() {
   }, [isPlaying]);
 
   return (
-    <div className="min-h-screen text-white font-mono" style={{background: 'linear-gradient(135deg, #0a0a0a 0%, #1a1a1a 100%)'}}>
+    <div className="min-h-screen font-mono" style={{color: 'var(--color-text)', background: 'linear-gradient(135deg, var(--color-bg) 0%, var(--color-panel) 100%)'}}>
       {/* Background Pattern */}
       <div className="fixed inset-0 opacity-5 pointer-events-none">
         <div className="absolute inset-0" style={{
-          backgroundImage: `radial-gradient(circle at 25% 25%, #00ff00 2px, transparent 2px),
-                           radial-gradient(circle at 75% 75%, #00bfff 2px, transparent 2px)`,
+          backgroundImage: `radial-gradient(circle at 25% 25%, var(--color-neon-green) 2px, transparent 2px),
+                           radial-gradient(circle at 75% 75%, var(--color-neon-blue) 2px, transparent 2px)`,
           backgroundSize: '50px 50px',
           backgroundPosition: '0 0, 25px 25px',
         }} />
@@ -116,59 +375,263 @@ function App() {
         {/* Header */}
         <div className="text-center mb-8">
           <div className="inline-block">
-            <h1 className="font-black text-4xl md:text-6xl mb-2" style={{fontFamily: "'Orbitron', 'JetBrains Mono', monospace", color: '#00ff00'}}>
+            <h1 className="font-black text-4xl md:text-6xl mb-2" style={{fontFamily: "'Orbitron', 'JetBrains Mono', monospace", color: 'var(--color-neon-green)'}}>
               🐍 SNAKE GAME
             </h1>
-            <div className="w-full h-1 rounded-full" style={{background: 'linear-gradient(to right, #00ff00, #00bfff, #ff0000)'}}></div>
+            <div className="w-full h-1 rounded-full" style={{background: 'linear-gradient(to right, var(--color-neon-green), var(--color-neon-blue), var(--color-neon-red))'}}></div>
           </div>
         </div>
 
-        {/* Game Layout */}
-        <div className="max-w-4xl mx-auto">
-          {/* Score Display */}
-          <ScoreDisplay
-            score={gameData.score}
-            bestScore={gameData.bestScore}
-            level={gameData.level}
-            gameState={gameData.gameState}
+        {/* Level Editor */}
+        {view === 'editor' && (
+          <LevelEditor
+            initialLevel={editorLevel}
+            builtinLevels={builtinMaps}
+            savedLevels={customLevels}
+            onSave={saveLevel}
+            onDelete={deleteLevel}
+            onTestPlay={handleTestPlay}
+            onClose={() => setView('game')}
           />
+        )}
 
-          {/* Game Board */}
-          <div className="flex justify-center mb-8">
-            <GameBoard
-              snake={gameData.snake}
-              food={gameData.food}
-              boardSize={DEFAULT_GAME_CONFIG.BOARD_SIZE}
-              onCellClick={handleCellClick}
-            />
-          </div>
+        {/* Game History */}
+        {view === 'history' && (
+          <GameHistoryPanel
+            history={gameHistory}
+            onWatch={handleWatchReplay}
+            onClear={clearHistory}
+            onClose={() => setView('game')}
+          />
+        )}
 
-          {/* Game Controls */}
-          <GameControls
-            gameState={gameData.gameState}
-            isPaused={isPaused}
-            onStart={startGame}
-            onPause={pauseGame}
-            onResume={resumeGame}
-            onReset={resetGame}
+        {/* Campaign Stages */}
+        {view === 'campaign' && (
+          <StageSelect
+            stages={CAMPAIGN_STAGES}
+            results={stageResults}
+            onPlay={handlePlayStage}
+            onClose={() => setView('game')}
           />
+        )}
 
-          {/* Mobile Controls */}
-          <MobileControls
-            onDirectionChange={changeDirection}
-            isVisible={isMobileDevice()}
+        {/* Replay Viewer */}
+        {view === 'replay' && watchedReplay && (
+          <ReplayViewer
+            replay={watchedReplay}
+            onClose={() => setView(replayReturnView)}
           />
-        </div>
+        )}
+
+        {/* Share Link Error */}
+        {linkError && (
+          <div className="max-w-4xl mx-auto flex items-center justify-center gap-4 mb-4 font-mono text-sm" role="alert">
+            <span className="text-neon-red">{linkError}</span>
+            <button
+              onClick={() => setLinkError(null)}
+              className="rounded-lg px-3 py-1 border border-neon-red text-neon-red"
+              aria-label="Dismiss"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+
+        {/* Game Layout */}
+        {view === 'game' && (
+          <div className="max-w-4xl mx-auto">
+            {/* Challenge Banner */}
+            {challenge && gameData.gameState === 'READY' && gameData.map.id === challenge.map.id &&
+              seedInput === String(challenge.seed) && (
+              <div className="text-center mb-4 font-mono text-sm text-gray-400">
+                🎯 CHALLENGE: <span className="text-neon-green">{challenge.map.name}</span> • SEED{' '}
+                <span className="text-neon-blue">{challenge.seed}</span> • PRESS START
+              </div>
+            )}
+
+            {/* Campaign Stage Goal */}
+            {playedStage && (
+              <div className="text-center mb-4 font-mono text-sm text-gray-400">
+                STAGE {playedStageIndex + 1}: <span className="text-neon-green">{playedStage.map.name}</span> •{' '}
+                {describeGoal(playedStage.goal).toUpperCase()}
+                {stageProgress && gameData.gameState !== 'READY' && (
+                  <span className="text-neon-blue">
+                    {' '}{Math.min(stageProgress.current, stageProgress.target)}/{stageProgress.target}
+                  </span>
+                )}
+              </div>
+            )}
+
+            {/* Test Play Banner */}
+            {testLevel && gameData.map.id === testLevel.id && (
+              <div className="flex items-center justify-center gap-4 mb-4 font-mono text-sm">
+                <span className="text-gray-400">TESTING: <span className="text-neon-green">{testLevel.name}</span></span>
+                <button
+                  onClick={handleOpenEditor}
+                  className="rounded-lg px-3 py-1 border border-neon-blue text-neon-blue"
+                  disabled={isPlaying}
+                >
+                  BACK TO EDITOR
+                </button>
+              </div>
+            )}
+
+            {/* Score Display */}
+            <ScoreDisplay
+              score={gameData.score}
+              bestScore={gameData.bestScore}
+              level={gameData.level}
+              levelUpScore={activeConfig.LEVEL_UP_SCORE}
+              gameState={gameData.gameState}
+              seed={gameData.seed}
+              players={gameData.players}
+              raceDelta={raceDelta}
+              timeLeft={gameData.timeLeft}
+            />
+
+            {/* Dead-End Warning (practice) */}
+            {gameData.setup.practice && (
+              <div className="h-6 text-center font-gaming font-bold text-neon-red animate-pulse mb-2" role="alert">
+                {deadEndWarnings.length > 0 &&
+                  `⚠ DEAD END AHEAD${boardSnakes.length > 1 ? `: ${deadEndWarnings.join(', ')}` : ''} ⚠`}
+              </div>
+            )}
+
+            {/* Game Board */}
+            <div className="flex justify-center mb-8">
+              <div className="relative">
+                <Board
+                  snakes={allSnakes}
+                  foods={boardData.foods}
+                  powerUps={boardData.powerUps}
+                  boardWidth={boardData.map.width}
+                  boardHeight={boardData.map.height}
+                  walls={boardData.map.walls}
+                  topology={boardData.setup.topology}
+                  interpolation={isDemoRunning ? demoInterpolation : interpolation}
+                  showGrid={settings.showGrid}
+                  showAnimations={settings.showAnimations}
+                  isPlaying={boardData.gameState === 'PLAYING'}
+                  onCellClick={handleCellClick}
+                />
+
+                {/* Pause Overlay */}
+                {isPaused && !showSettings && (
+                  <div className="demo-overlay">
+                    <div className="font-gaming font-black text-3xl text-neon-blue mb-4">PAUSED</div>
+                    <button
+                      onClick={handleOpenSettings}
+                      className="control-button px-6 py-3 font-gaming border-neon-blue text-neon-blue hover:bg-neon-blue hover:text-dark-bg"
+                    >
+                      ⚙ SETTINGS
+                    </button>
+                  </div>
+                )}
+
+                {/* Demo Overlay */}
+                {isDemoRunning && (
+                  <div className="demo-overlay">
+                    <div className="font-gaming font-black text-3xl text-neon-blue mb-2">DEMO</div>
+                    <div className="demo-prompt font-gaming font-bold text-neon-green">
+                      {isMobileDevice() ? 'TAP TO PLAY' : 'PRESS ENTER TO START'}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Game Controls */}
+            <GameControls
+              gameState={gameData.gameState}
+              isPaused={isPaused}
+              onStart={handleStart}
+              onPause={pauseGame}
+              onResume={resumeGame}
+              onReset={resetGame}
+              seedInput={seedInput}
+              onSeedInputChange={setSeedInput}
+              setup={gameSetup}
+              onSetupChange={setGameSetup}
+              maps={maps}
+              ghostRace={ghostRace}
+              onGhostRaceChange={setGhostRace}
+              difficulty={settings.difficulty}
+              customConfig={settings.customConfig}
+              onDifficultyChange={handleDifficultyChange}
+              onCustomConfigChange={handleCustomConfigChange}
+              onOpenSettings={handleOpenSettings}
+            />
+
+            {/* Campaign, Level Editor and History Entry */}
+            {gameData.gameState !== 'PLAYING' && (
+              <div className="flex flex-wrap justify-center gap-4 mb-6">
+                <button
+                  onClick={() => setView('campaign')}
+                  className="control-button px-6 py-3 font-gaming border-neon-blue text-neon-blue hover:bg-neon-blue hover:text-dark-bg"
+                >
+                  🗺 CAMPAIGN
+                </button>
+                <button
+                  onClick={handleOpenEditor}
+                  className="control-button px-6 py-3 font-gaming border-neon-blue text-neon-blue hover:bg-neon-blue hover:text-dark-bg"
+                >
+                  🛠 LEVEL EDITOR
+                </button>
+                <button
+                  onClick={() => setView('history')}
+                  className="control-button px-6 py-3 font-gaming border-neon-blue text-neon-blue hover:bg-neon-blue hover:text-dark-bg"
+                >
+                  📼 REPLAYS
+                </button>
+              </div>
+            )}
+
+            {/* Mobile Controls */}
+            <MobileControls
+              onDirectionChange={changeDirection}
+              isVisible={isMobileDevice()}
+            />
+          </div>
+        )}
 
         {/* Game Over Modal */}
         <GameOverModal
-          isOpen={showGameOverModal}
+          isOpen={showGameOverModal && isGameOver && view === 'game'}
           finalScore={gameData.score}
           bestScore={gameData.bestScore}
           level={gameData.level}
+          players={gameData.players}
+          winner={getWinner(gameData.players, gameData.setup.mode)}
+          foodEaten={gameData.foodEaten}
+          endReason={gameData.endReason}
           onPlayAgain={handlePlayAgain}
+          onWatchReplay={lastReplay ? () => handleWatchReplay(lastReplay) : undefined}
           onClose={handleCloseModal}
         />
+
+        {/* Stage Complete Modal */}
+        {playedStage && (
+          <StageCompleteModal
+            isOpen={showGameOverModal && isStageComplete && view === 'game'}
+            stage={playedStage}
+            stageNumber={playedStageIndex + 1}
+            score={gameData.score}
+            time={gameData.timePlayed}
+            hasNextStage={nextStage !== undefined}
+            onNextStage={() => nextStage && handlePlayStage(nextStage)}
+            onRetry={handlePlayAgain}
+            onStageSelect={handleStageSelect}
+          />
+        )}
+
+        {/* Settings Dialog */}
+        <SettingsDialog
+          isOpen={showSettings}
+          settings={settings}
+          onSettingChange={updateSetting}
+          onReset={resetSettings}
+          onClose={handleCloseSettings}
+        />
       </div>
 
       {/* Footer */}
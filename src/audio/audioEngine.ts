@@ -0,0 +1,105 @@
+/**
+ * Audio Engine
+ *
+ * One Web Audio context shared by every sound the game makes, mixed through
+ * a master volume and a volume per category. Browsers only let a page play
+ * sound once the player has interacted with it, so the context is created
+ * on the first key press, click or touch; sounds asked for before then are
+ * skipped rather than queued.
+ */
+
+import { AudioCategory, AudioVolumes } from '../types/game.types';
+
+// The context and the gain nodes every sound is routed through
+interface Mixer {
+  context: AudioContext;
+  master: GainNode;
+  categories: Record<AudioCategory, GainNode>;
+}
+
+// Where a sound of one category is played to
+export interface AudioOutput {
+  context: AudioContext;
+  destination: AudioNode;
+}
+
+// Seconds a volume change takes, so sliders don't click
+const VOLUME_RAMP_TIME = 0.05;
+
+let mixer: Mixer | null = null;
+
+// Volumes applied to the mixer once it exists
+let volumes: AudioVolumes = { master: 0, effects: 0, interface: 0, music: 0 };
+
+// Web Audio is still prefixed in older Safari
+const getAudioContextClass = (): typeof AudioContext | undefined => {
+  return window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+};
+
+const toGain = (volume: number): number => Math.min(Math.max(volume, 0), 100) / 100;
+
+const applyVolumes = ({ context, master, categories }: Mixer) => {
+  const now = context.currentTime;
+  master.gain.setTargetAtTime(toGain(volumes.master), now, VOLUME_RAMP_TIME);
+  (Object.keys(categories) as AudioCategory[]).forEach(category => {
+    categories[category].gain.setTargetAtTime(toGain(volumes[category]), now, VOLUME_RAMP_TIME);
+  });
+};
+
+const createMixer = (): Mixer | null => {
+  const AudioContextClass = getAudioContextClass();
+  if (!AudioContextClass) return null;
+
+  const context = new AudioContextClass();
+  const master = context.createGain();
+  master.connect(context.destination);
+
+  const createCategory = () => {
+    const gain = context.createGain();
+    gain.connect(master);
+    return gain;
+  };
+
+  const created: Mixer = {
+    context,
+    master,
+    categories: { effects: createCategory(), interface: createCategory(), music: createCategory() },
+  };
+  applyVolumes(created);
+  return created;
+};
+
+/**
+ * Create or resume the audio context. Must be called from an input event
+ * handler for the browser to allow it.
+ */
+export const unlockAudio = (): void => {
+  mixer ??= createMixer();
+  if (mixer && mixer.context.state !== 'running') {
+    mixer.context.resume().catch(() => {
+      // Still locked: the next input tries again
+    });
+  }
+};
+
+/**
+ * Check whether sound can be played yet
+ */
+export const isAudioUnlocked = (): boolean => mixer?.context.state === 'running';
+
+/**
+ * Set the master and category volumes (0-100)
+ */
+export const setAudioVolumes = (next: AudioVolumes): void => {
+  volumes = next;
+  if (mixer) applyVolumes(mixer);
+};
+
+/**
+ * Get where to play a sound of the given category, or null while audio is
+ * locked or unsupported
+ */
+export const getAudioOutput = (category: AudioCategory): AudioOutput | null => {
+  if (!mixer || !isAudioUnlocked()) return null;
+  return { context: mixer.context, destination: mixer.categories[category] };
+};
@@ -0,0 +1,223 @@
+/**
+ * Music
+ *
+ * A generated chiptune loop: bass, arpeggiated lead and drums over four
+ * chords. Notes are scheduled on the audio clock a little ahead of time by
+ * a timer that wakes every few milliseconds, so the music keeps time even
+ * when the page's main thread (and the game loop with it) stalls.
+ *
+ * The tempo follows the game's speed and glides to a new one rather than
+ * jumping; pausing muffles the loop through a low-pass filter.
+ */
+
+import { getAudioOutput } from './audioEngine';
+import { Tone, midiToFrequency, playNoise, playTone } from './synth';
+
+export interface MusicPlayer {
+  start: () => void;
+  stop: () => void;          // Fades out what's already scheduled
+  setTempo: (bpm: number) => void;
+  setMuffled: (muffled: boolean) => void;
+  playSting: () => void;     // Short falling jingle for the end of a game
+}
+
+// Filter and volume the loop is played through
+interface MusicBus {
+  context: AudioContext;
+  filter: BiquadFilterNode;
+  output: GainNode;
+}
+
+// Milliseconds between scheduler runs, and seconds of music scheduled ahead
+const SCHEDULER_INTERVAL = 25;
+const SCHEDULE_AHEAD_TIME = 0.1;
+
+// Loop length: four bars of sixteenth notes
+const STEPS_PER_BEAT = 4;
+const STEPS_PER_BAR = 16;
+
+// Tempo range, and the share of a tempo change made each step
+const MIN_TEMPO = 80;
+const MAX_TEMPO = 200;
+const TEMPO_GLIDE = 0.05;
+
+// Low-pass cutoff (Hz) and loop volume, playing and paused
+const OPEN_CUTOFF = 18000;
+const MUFFLED_CUTOFF = 600;
+const MUFFLED_GAIN = 0.6;
+
+// Seconds volume and filter changes take
+const FADE_TIME = 0.08;
+
+// Chords of the loop, one per bar: bass root and the lead's three chord tones (MIDI notes)
+const CHORDS: { bass: number; lead: number[] }[] = [
+  { bass: 45, lead: [69, 72, 76] }, // A minor
+  { bass: 41, lead: [65, 69, 72] }, // F major
+  { bass: 48, lead: [67, 72, 76] }, // C major
+  { bass: 43, lead: [67, 71, 74] }, // G major
+];
+
+// Chord tone the lead plays on each step of a bar: 3 is the root an octave up, null a rest
+const LEAD_PATTERN: (number | null)[] = [0, 1, 2, 3, 2, 1, 0, 1, 0, 1, 2, 3, 2, 1, 2, null];
+
+const LOOP_STEPS = CHORDS.length * STEPS_PER_BAR;
+
+// Falling minor jingle played when a game ends
+const STING: Tone[] = [
+  ...[76, 72, 69].map((note, index) => ({
+    wave: 'square' as const,
+    frequency: midiToFrequency(note),
+    start: index * 0.12,
+    duration: 0.16,
+    gain: 0.12,
+  })),
+  { wave: 'triangle', frequency: midiToFrequency(45), start: 0.36, duration: 0.8, gain: 0.35 },
+];
+
+/**
+ * Get the tempo (beats per minute) that suits a game speed: faster steps
+ * bring faster music, within a range that stays listenable
+ */
+export const getMusicTempo = (gameSpeed: number): number => {
+  const tempo = 96 * Math.sqrt(200 / Math.max(gameSpeed, 1));
+  return Math.round(Math.min(Math.max(tempo, MIN_TEMPO), MAX_TEMPO));
+};
+
+// Schedule the notes of one step of the loop
+const playStep = (context: AudioContext, destination: AudioNode, step: number, time: number, stepLength: number) => {
+  const chord = CHORDS[Math.floor(step / STEPS_PER_BAR)];
+  const position = step % STEPS_PER_BAR;
+
+  // Bass on every eighth note, alternating root and octave
+  if (position % 2 === 0) {
+    const note = position % 4 === 0 ? chord.bass : chord.bass + 12;
+    playTone(context, destination, {
+      wave: 'triangle',
+      frequency: midiToFrequency(note),
+      start: 0,
+      duration: stepLength * 1.8,
+      gain: 0.3,
+    }, time);
+  }
+
+  // Arpeggiated lead
+  const leadTone = LEAD_PATTERN[position];
+  if (leadTone !== null) {
+    const note = leadTone === 3 ? chord.lead[0] + 12 : chord.lead[leadTone];
+    playTone(context, destination, {
+      wave: 'square',
+      frequency: midiToFrequency(note),
+      start: 0,
+      duration: stepLength * 0.9,
+      gain: 0.06,
+    }, time);
+  }
+
+  // Kick on beats one and three, snare on two and four, hats on the off-beats
+  if (position % 8 === 0) {
+    playTone(context, destination, { wave: 'sine', frequency: 150, endFrequency: 40, start: 0, duration: 0.12, gain: 0.5 }, time);
+  } else if (position % 8 === 4) {
+    playNoise(context, destination, time, 0.1, 0.12);
+  } else if (position % 4 === 2) {
+    playNoise(context, destination, time, 0.03, 0.05);
+  }
+};
+
+/**
+ * Create a music player, silent until started
+ */
+export const createMusicPlayer = (): MusicPlayer => {
+  let bus: MusicBus | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let muffled = false;
+
+  // Position in the loop, and the audio-clock time of its next step
+  let step = 0;
+  let nextStepTime = 0;
+
+  // Current tempo, gliding towards the target one
+  let tempo = getMusicTempo(200);
+  let targetTempo = tempo;
+
+  // Bring the filter and volume to where the player's state says
+  const applyMix = () => {
+    if (!bus) return;
+    const now = bus.context.currentTime;
+    const gain = timer === null ? 0 : muffled ? MUFFLED_GAIN : 1;
+    bus.output.gain.setTargetAtTime(gain, now, FADE_TIME);
+    bus.filter.frequency.setTargetAtTime(muffled ? MUFFLED_CUTOFF : OPEN_CUTOFF, now, FADE_TIME);
+  };
+
+  // The bus is made on the shared context once audio is unlocked
+  const getBus = (): MusicBus | null => {
+    const output = getAudioOutput('music');
+    if (!output) return null;
+
+    if (!bus || bus.context !== output.context) {
+      const { context, destination } = output;
+      const filter = context.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = OPEN_CUTOFF;
+      const gain = context.createGain();
+      gain.gain.value = 0;
+      filter.connect(gain);
+      gain.connect(destination);
+      bus = { context, filter, output: gain };
+      applyMix();
+    }
+    return bus;
+  };
+
+  // Schedule every step that starts before the lookahead window closes
+  const schedule = () => {
+    const current = getBus();
+    if (!current) return;
+
+    const { context, filter } = current;
+
+    // Starting, or catching up after the timer stalled: carry on from now rather than rush the missed steps
+    if (nextStepTime < context.currentTime) {
+      nextStepTime = context.currentTime + 0.05;
+    }
+
+    while (nextStepTime < context.currentTime + SCHEDULE_AHEAD_TIME) {
+      const stepLength = 60 / tempo / STEPS_PER_BEAT;
+      playStep(context, filter, step, nextStepTime, stepLength);
+
+      nextStepTime += stepLength;
+      step = (step + 1) % LOOP_STEPS;
+      tempo += (targetTempo - tempo) * TEMPO_GLIDE;
+    }
+  };
+
+  return {
+    start: () => {
+      if (timer !== null) return;
+      step = 0;
+      nextStepTime = 0;
+      tempo = targetTempo;
+      timer = setInterval(schedule, SCHEDULER_INTERVAL);
+      applyMix();
+      schedule();
+    },
+    stop: () => {
+      if (timer === null) return;
+      clearInterval(timer);
+      timer = null;
+      applyMix();
+    },
+    setTempo: (bpm) => {
+      targetTempo = Math.min(Math.max(bpm, MIN_TEMPO), MAX_TEMPO);
+    },
+    setMuffled: (value) => {
+      muffled = value;
+      applyMix();
+    },
+    playSting: () => {
+      const output = getAudioOutput('music');
+      if (!output) return;
+      const { context, destination } = output;
+      STING.forEach(tone => playTone(context, destination, tone, context.currentTime + 0.05));
+    },
+  };
+};
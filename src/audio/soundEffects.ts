@@ -0,0 +1,69 @@
+/**
+ * Sound Effects
+ *
+ * Every effect is synthesized from a few oscillator tones, so the game
+ * ships no audio files.
+ */
+
+import { AudioCategory, SoundEffect } from '../types/game.types';
+import { getAudioOutput } from './audioEngine';
+import { Tone, playTone } from './synth';
+
+interface SoundEffectDefinition {
+  category: AudioCategory;
+  tones: Tone[];
+}
+
+// Notes played one after another, for jingles
+const arpeggio = (wave: OscillatorType, frequencies: number[], step: number, gain: number): Tone[] =>
+  frequencies.map((frequency, index) => ({ wave, frequency, start: index * step, duration: step * 1.5, gain }));
+
+const SOUND_EFFECTS: Record<SoundEffect, SoundEffectDefinition> = {
+  EAT: {
+    category: 'effects',
+    tones: [{ wave: 'square', frequency: 520, endFrequency: 1040, start: 0, duration: 0.07, gain: 0.2 }],
+  },
+  LEVEL_UP: {
+    category: 'effects',
+    tones: arpeggio('triangle', [523.25, 659.25, 783.99, 1046.5], 0.08, 0.35),
+  },
+  NEW_BEST: {
+    category: 'effects',
+    tones: [
+      ...arpeggio('square', [783.99, 783.99], 0.1, 0.15),
+      { wave: 'square', frequency: 1046.5, start: 0.2, duration: 0.4, gain: 0.15 },
+      { wave: 'triangle', frequency: 523.25, start: 0.2, duration: 0.4, gain: 0.3 },
+    ],
+  },
+  GAME_OVER: {
+    category: 'effects',
+    tones: [
+      { wave: 'sawtooth', frequency: 392, endFrequency: 98, start: 0, duration: 0.7, gain: 0.2 },
+      { wave: 'square', frequency: 196, endFrequency: 49, start: 0.05, duration: 0.7, gain: 0.1 },
+    ],
+  },
+  PAUSE: {
+    category: 'interface',
+    tones: arpeggio('triangle', [880, 659.25], 0.06, 0.3),
+  },
+  RESUME: {
+    category: 'interface',
+    tones: arpeggio('triangle', [659.25, 880], 0.06, 0.3),
+  },
+  MENU: {
+    category: 'interface',
+    tones: [{ wave: 'square', frequency: 1318.5, start: 0, duration: 0.03, gain: 0.1 }],
+  },
+};
+
+/**
+ * Play a sound effect now. Does nothing while audio is still locked.
+ */
+export const playSoundEffect = (effect: SoundEffect): void => {
+  const { category, tones } = SOUND_EFFECTS[effect];
+  const output = getAudioOutput(category);
+  if (!output) return;
+
+  const { context, destination } = output;
+  tones.forEach(tone => playTone(context, destination, tone, context.currentTime));
+};
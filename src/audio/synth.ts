@@ -0,0 +1,96 @@
+/**
+ * Synth
+ *
+ * The building blocks sounds and music are made of: oscillator tones with
+ * a pitch sweep and a short attack and fade, and bursts of white noise for
+ * percussion.
+ */
+
+// One oscillator note; times are in seconds
+export interface Tone {
+  wave: OscillatorType;
+  frequency: number;
+  endFrequency?: number;     // Pitch the tone sweeps to over its duration
+  start: number;             // Offset from the time the tone is played at
+  duration: number;
+  gain: number;
+}
+
+// Seconds a tone takes to reach full volume
+const ATTACK_TIME = 0.005;
+
+// Level a fade ends at (exponential ramps can't reach zero)
+const SILENT_GAIN = 0.0001;
+
+// One second of white noise per audio context, reused by every burst
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+const getNoiseBuffer = (context: BaseAudioContext): AudioBuffer => {
+  let buffer = noiseBuffers.get(context);
+  if (!buffer) {
+    buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const samples = buffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.random() * 2 - 1;
+    }
+    noiseBuffers.set(context, buffer);
+  }
+  return buffer;
+};
+
+// Gain node that rises quickly to `gain` and fades out by `end`
+const createEnvelope = (context: BaseAudioContext, gain: number, start: number, end: number): GainNode => {
+  const envelope = context.createGain();
+  envelope.gain.setValueAtTime(0, start);
+  envelope.gain.linearRampToValueAtTime(gain, start + ATTACK_TIME);
+  envelope.gain.exponentialRampToValueAtTime(SILENT_GAIN, end);
+  return envelope;
+};
+
+/**
+ * Convert a MIDI note number to its frequency in Hz (69 is A4, 440 Hz)
+ */
+export const midiToFrequency = (note: number): number => 440 * 2 ** ((note - 69) / 12);
+
+/**
+ * Play a tone at the given context time
+ */
+export const playTone = (context: BaseAudioContext, destination: AudioNode, tone: Tone, time: number): void => {
+  const start = time + tone.start;
+  const end = start + tone.duration;
+
+  const oscillator = context.createOscillator();
+  oscillator.type = tone.wave;
+  oscillator.frequency.setValueAtTime(tone.frequency, start);
+  if (tone.endFrequency) {
+    oscillator.frequency.exponentialRampToValueAtTime(tone.endFrequency, end);
+  }
+
+  const envelope = createEnvelope(context, tone.gain, start, end);
+  oscillator.connect(envelope);
+  envelope.connect(destination);
+  oscillator.start(start);
+  oscillator.stop(end + 0.02);
+  oscillator.onended = () => envelope.disconnect();
+};
+
+/**
+ * Play a burst of white noise at the given context time
+ */
+export const playNoise = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  time: number,
+  duration: number,
+  gain: number
+): void => {
+  const source = context.createBufferSource();
+  source.buffer = getNoiseBuffer(context);
+
+  const envelope = createEnvelope(context, gain, time, time + duration);
+  source.connect(envelope);
+  envelope.connect(destination);
+  source.start(time);
+  source.stop(time + duration + 0.02);
+  source.onended = () => envelope.disconnect();
+};
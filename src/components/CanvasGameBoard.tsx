@@ -0,0 +1,368 @@
+/**
+ * Canvas Game Board Component
+ *
+ * Draws the board on a single <canvas> instead of one element per cell, so
+ * large boards stay smooth. Takes the same props as GameBoard and looks the
+ * same: the grid and walls are drawn once to an offscreen layer, and each
+ * frame copies that layer and draws snakes, food and hints over it. The
+ * canvas is scaled for the screen's pixel density so sprites stay sharp.
+ */
+
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { BoardSnake, Food, FoodKind, GameBoardProps, Position, PowerUp, SegmentSprite, POWER_UP_TYPES } from '../types/game.types';
+import { getBoardCellSize, getSegmentSprites } from '../utils/gameHelpers';
+import { EXPIRY_WARNING_TICKS, FOOD_ICONS, FrogIcon, SEGMENT_ICONS } from './boardAssets';
+
+// Shared defaults so the cell lookups aren't rebuilt every render
+const NO_WALLS: Position[] = [];
+const NO_FOODS: Food[] = [];
+const NO_POWER_UPS: PowerUp[] = [];
+
+// Glow around food worth noticing
+const FOOD_GLOWS: Partial<Record<FoodKind, string>> = {
+  BONUS: 'rgba(250, 204, 21, 0.6)',
+  SHRINK: 'rgba(0, 191, 255, 0.5)',
+  POISON: 'rgba(168, 85, 247, 0.6)',
+};
+
+// Milliseconds of one food pulse, and of each half of an expiry blink
+const PULSE_PERIOD = 2000;
+const BLINK_PERIOD = 200;
+
+// Space between a cell's edge and its sprite, as in the DOM board
+const SPRITE_PADDING = 2;
+
+// Sprites decoded once and shared by every canvas board
+const spriteCache = new Map<string, HTMLImageElement>();
+
+const getSprite = (src: string): HTMLImageElement => {
+  let sprite = spriteCache.get(src);
+  if (!sprite) {
+    sprite = new Image();
+    sprite.src = src;
+    spriteCache.set(src, sprite);
+  }
+  return sprite;
+};
+
+const ALL_SPRITES = [...Object.values(SEGMENT_ICONS), FrogIcon, ...Object.values(FOOD_ICONS)];
+
+// See-through while ghosting or racing, faded once crashed (as the DOM board's classes)
+const getSnakeAlpha = (boardSnake: BoardSnake): number => {
+  if (boardSnake.eliminated) return 0.25;
+  if (boardSnake.racer) return 0.3;
+  return boardSnake.ghost ? 0.45 : 1;
+};
+
+const getSnakeFilter = (boardSnake: BoardSnake): string => {
+  const hue = `hue-rotate(${boardSnake.style.hueRotate}deg)`;
+  return boardSnake.eliminated ? `${hue} grayscale(1)` : hue;
+};
+
+// Theme colour the grid lines are drawn in
+const readGridColor = (): string => {
+  return getComputedStyle(document.documentElement).getPropertyValue('--color-border').trim() || '#333333';
+};
+
+const isExpiring = (item: { ticksLeft: number | null }): boolean => {
+  return item.ticksLeft !== null && item.ticksLeft <= EXPIRY_WARNING_TICKS;
+};
+
+const drawSprite = (ctx: CanvasRenderingContext2D, src: string, x: number, y: number, size: number) => {
+  const sprite = getSprite(src);
+  if (!sprite.complete || sprite.naturalWidth === 0) return;
+  ctx.drawImage(sprite, x + SPRITE_PADDING, y + SPRITE_PADDING, size - SPRITE_PADDING * 2, size - SPRITE_PADDING * 2);
+};
+
+// Draw a snake segment turned to face its way; with no padding it fills the cell, so neighbours join up
+const drawSegment = (ctx: CanvasRenderingContext2D, sprite: SegmentSprite, x: number, y: number, size: number, padding = 0) => {
+  const image = getSprite(SEGMENT_ICONS[sprite.shape]);
+  if (!image.complete || image.naturalWidth === 0) return;
+  ctx.save();
+  ctx.translate(x + size / 2, y + size / 2);
+  ctx.rotate((sprite.rotation * Math.PI) / 180);
+  ctx.drawImage(image, padding - size / 2, padding - size / 2, size - padding * 2, size - padding * 2);
+  ctx.restore();
+};
+
+const CanvasGameBoard: React.FC<GameBoardProps> = ({
+  snakes,
+  foods = NO_FOODS,
+  powerUps = NO_POWER_UPS,
+  boardWidth,
+  boardHeight,
+  walls = NO_WALLS,
+  foodSpawns = NO_WALLS,
+  topology = 'WALLS',
+  interpolation,
+  showGrid = true,
+  showAnimations = true,
+  isPlaying = true,
+  onCellClick,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Calculate responsive cell size, and the board's size in CSS pixels
+  const cellSize = useMemo(() => getBoardCellSize(boardWidth, boardHeight), [boardWidth, boardHeight]);
+  const gap = showGrid ? 1 : 0;
+  const pitch = cellSize + gap;
+  const width = boardWidth * pitch - gap;
+  const height = boardHeight * pitch - gap;
+  const pixelRatio = window.devicePixelRatio || 1;
+
+  // Bumped as sprites finish loading, so they show up without waiting for the next move
+  const [spritesLoaded, setSpritesLoaded] = useState(0);
+  useEffect(() => {
+    const pending = ALL_SPRITES.map(getSprite).filter(sprite => !sprite.complete);
+    const handleLoad = () => setSpritesLoaded(count => count + 1);
+    pending.forEach(sprite => sprite.addEventListener('load', handleLoad));
+    return () => pending.forEach(sprite => sprite.removeEventListener('load', handleLoad));
+  }, []);
+
+  // Grid colour follows the theme
+  const [gridColor, setGridColor] = useState(readGridColor);
+  useEffect(() => {
+    const observer = new MutationObserver(() => setGridColor(readGridColor()));
+    observer.observe(document.documentElement, { attributes: true, attributeFilter: ['data-theme'] });
+    return () => observer.disconnect();
+  }, []);
+
+  // Every snake's segment sprites, head first
+  const spritesBySnake = useMemo(() => {
+    const board = { width: boardWidth, height: boardHeight };
+    return snakes.map(boardSnake => getSegmentSprites(boardSnake.snake, board, topology));
+  }, [snakes, boardWidth, boardHeight, topology]);
+
+  // Snake body cells looked up by "x,y" key
+  const bodyByKey = useMemo(() => {
+    const bodies = new Map<string, BoardSnake>();
+    snakes.forEach(boardSnake => {
+      boardSnake.snake.segments.slice(1).forEach(segment => bodies.set(`${segment.x},${segment.y}`, boardSnake));
+    });
+    return bodies;
+  }, [snakes]);
+
+  // Food and power-up cells looked up by "x,y" key
+  const itemKeys = useMemo(() => {
+    return new Set([...foods, ...powerUps].map(item => `${item.position.x},${item.position.y}`));
+  }, [foods, powerUps]);
+
+  // Layer of everything that only changes with the board: grid lines and walls
+  const background = useMemo(() => {
+    const layer = document.createElement('canvas');
+    layer.width = Math.round(width * pixelRatio);
+    layer.height = Math.round(height * pixelRatio);
+    const ctx = layer.getContext('2d');
+    if (!ctx) return layer;
+    ctx.scale(pixelRatio, pixelRatio);
+
+    const wallKeys = new Set(walls.map(wall => `${wall.x},${wall.y}`));
+    const wallFill = ctx.createLinearGradient(0, 0, cellSize, cellSize);
+    wallFill.addColorStop(0, '#3a3a3a');
+    wallFill.addColorStop(1, '#262626');
+
+    ctx.lineWidth = 1;
+    for (let y = 0; y < boardHeight; y++) {
+      for (let x = 0; x < boardWidth; x++) {
+        const left = x * pitch;
+        const top = y * pitch;
+        if (wallKeys.has(`${x},${y}`)) {
+          ctx.save();
+          ctx.translate(left, top);
+          ctx.fillStyle = wallFill;
+          ctx.fillRect(0, 0, cellSize, cellSize);
+          ctx.strokeStyle = '#4a4a4a';
+          ctx.strokeRect(0.5, 0.5, cellSize - 1, cellSize - 1);
+          ctx.restore();
+        } else if (showGrid) {
+          ctx.strokeStyle = gridColor;
+          ctx.strokeRect(left + 0.5, top + 0.5, cellSize - 1, cellSize - 1);
+        }
+      }
+    }
+
+    return layer;
+  }, [width, height, pixelRatio, boardWidth, boardHeight, pitch, cellSize, walls, showGrid, gridColor]);
+
+  // Draw one frame; `time` drives the food pulse and expiry blink
+  const draw = useCallback((time: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(background, 0, 0, width, height);
+
+    // Items hold still, in full view, while the game is stopped
+    const blinkHidden = isPlaying && Math.floor(time / BLINK_PERIOD) % 2 === 1;
+    const pulseAlpha = isPlaying && showAnimations ? 0.75 + 0.25 * Math.cos((2 * Math.PI * time) / PULSE_PERIOD) : 1;
+
+    // Food spawn markers
+    ctx.save();
+    ctx.globalAlpha = 0.3;
+    foodSpawns.forEach(spawn => drawSprite(ctx, FrogIcon, spawn.x * pitch, spawn.y * pitch, cellSize));
+    ctx.restore();
+
+    // A live body covers what's under it; a raced ghost never hides food or power-ups
+    const isCovered = (position: Position) => {
+      const body = bodyByKey.get(`${position.x},${position.y}`);
+      return body !== undefined && !body.racer;
+    };
+
+    // Snake bodies
+    snakes.forEach((boardSnake, index) => {
+      ctx.save();
+      ctx.globalAlpha = getSnakeAlpha(boardSnake);
+      ctx.filter = getSnakeFilter(boardSnake);
+      boardSnake.snake.segments.forEach((segment, segmentIndex) => {
+        if (segmentIndex === 0 || (boardSnake.racer && itemKeys.has(`${segment.x},${segment.y}`))) return;
+        drawSegment(ctx, spritesBySnake[index][segmentIndex], segment.x * pitch, segment.y * pitch, cellSize);
+      });
+      ctx.restore();
+    });
+
+    // Food
+    foods.forEach(food => {
+      if (isCovered(food.position) || (isExpiring(food) && blinkHidden)) return;
+      ctx.save();
+      ctx.globalAlpha = pulseAlpha;
+      const glow = FOOD_GLOWS[food.kind];
+      if (glow) {
+        ctx.shadowColor = glow;
+        ctx.shadowBlur = 10;
+      }
+      drawSprite(ctx, FOOD_ICONS[food.kind], food.position.x * pitch, food.position.y * pitch, cellSize);
+      ctx.restore();
+    });
+
+    // Power-ups
+    powerUps.forEach(powerUp => {
+      if (isCovered(powerUp.position) || (isExpiring(powerUp) && blinkHidden)) return;
+      const type = POWER_UP_TYPES[powerUp.kind];
+      const centerX = powerUp.position.x * pitch + cellSize / 2;
+      const centerY = powerUp.position.y * pitch + cellSize / 2;
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, cellSize / 2 - 0.5, 0, Math.PI * 2);
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.05)';
+      ctx.fill();
+      ctx.setLineDash([2, 2]);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+      ctx.stroke();
+      ctx.fillStyle = type.color;
+      ctx.font = `${cellSize * 0.6}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(type.icon, centerX, centerY);
+      ctx.restore();
+    });
+
+    // Practice overlay: the safe path in the snake's colour, a dead end in red
+    snakes.forEach(boardSnake => {
+      const { hint } = boardSnake;
+      if (!hint) return;
+      const hintCells = [
+        ...hint.path.map(cell => ({ cell, dashed: true, color: boardSnake.style.color })),
+        ...hint.trappedCells.map(cell => ({ cell, dashed: false, color: '#ff0000' })),
+      ];
+      hintCells.forEach(({ cell, dashed, color }) => {
+        ctx.save();
+        ctx.fillStyle = `${color}33`;
+        ctx.fillRect(cell.x * pitch, cell.y * pitch, cellSize, cellSize);
+        ctx.setLineDash(dashed ? [3, 2] : []);
+        ctx.strokeStyle = `${color}80`;
+        ctx.strokeRect(cell.x * pitch + 0.5, cell.y * pitch + 0.5, cellSize - 1, cellSize - 1);
+        ctx.restore();
+      });
+    });
+
+    // Heads, sliding in from the previous cell
+    const alpha = interpolation?.get() ?? 1;
+    snakes.forEach((boardSnake, index) => {
+      const [head, neck] = boardSnake.snake.segments;
+      if (!head) return;
+
+      let offsetX = 0;
+      let offsetY = 0;
+      if (neck && !boardSnake.eliminated && Math.abs(neck.x - head.x) + Math.abs(neck.y - head.y) === 1) {
+        const remaining = (1 - alpha) * pitch;
+        offsetX = (neck.x - head.x) * remaining;
+        offsetY = (neck.y - head.y) * remaining;
+      }
+
+      const left = head.x * pitch + offsetX;
+      const top = head.y * pitch + offsetY;
+      const { color } = boardSnake.style;
+
+      ctx.save();
+      ctx.globalAlpha = getSnakeAlpha(boardSnake);
+      ctx.shadowColor = `${color}4d`;
+      ctx.shadowBlur = 10;
+      ctx.strokeStyle = `${color}80`;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(left + 1, top + 1, cellSize - 2, cellSize - 2);
+      ctx.shadowBlur = 0;
+      ctx.filter = getSnakeFilter(boardSnake);
+      drawSegment(ctx, spritesBySnake[index][0], left, top, cellSize, SPRITE_PADDING);
+      ctx.restore();
+    });
+  }, [pixelRatio, width, height, background, showAnimations, isPlaying, foodSpawns, bodyByKey, itemKeys, snakes, spritesBySnake, foods, powerUps, pitch, cellSize, interpolation]);
+
+  // Redraw whenever the board changes
+  useLayoutEffect(() => {
+    draw(performance.now());
+  }, [draw, spritesLoaded]);
+
+  // Keep drawing while something on the board pulses or blinks, which it only does in play
+  const isAnimated = isPlaying &&
+    ((showAnimations && foods.length > 0) || foods.some(isExpiring) || powerUps.some(isExpiring));
+  useEffect(() => {
+    if (!isAnimated) return;
+
+    let frame = requestAnimationFrame(function animate(time) {
+      draw(time);
+      frame = requestAnimationFrame(animate);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isAnimated, draw]);
+
+  // Slide the heads as the game loop moves on; the animation loop above already redraws every frame
+  useEffect(() => {
+    if (!interpolation || isAnimated) return;
+    return interpolation.subscribe(() => draw(performance.now()));
+  }, [interpolation, isAnimated, draw]);
+
+  // Map a click to the cell under it
+  const handleClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onCellClick) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor(((e.clientX - rect.left) / rect.width) * width / pitch);
+    const y = Math.floor(((e.clientY - rect.top) / rect.height) * height / pitch);
+    onCellClick({
+      x: Math.min(Math.max(x, 0), boardWidth - 1),
+      y: Math.min(Math.max(y, 0), boardHeight - 1),
+    });
+  }, [onCellClick, width, height, pitch, boardWidth, boardHeight]);
+
+  return (
+    <div className="flex justify-center items-center p-4">
+      <div
+        className={`game-container p-4 ${topology === 'WRAP' ? 'wrap-edges' : ''}`}
+        title={topology === 'WRAP' ? 'Edges wrap around' : undefined}
+      >
+        <canvas
+          ref={canvasRef}
+          width={Math.round(width * pixelRatio)}
+          height={Math.round(height * pixelRatio)}
+          style={{ display: 'block', width: `${width}px`, height: `${height}px` }}
+          onClick={handleClick}
+          role="img"
+          aria-label={`Game board, ${boardWidth} by ${boardHeight}`}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default React.memo(CanvasGameBoard);
@@ -0,0 +1,67 @@
+/**
+ * Difficulty Picker Component
+ *
+ * Choice of difficulty, with sliders for the custom difficulty's values.
+ * Shown among the game options and in the settings dialog.
+ */
+
+import React from 'react';
+import { DifficultyPickerProps } from '../types/game.types';
+import { CUSTOM_CONFIG_FIELDS, DIFFICULTY_OPTIONS, setCustomConfigValue } from '../engine/difficulty';
+
+const DifficultyPicker: React.FC<DifficultyPickerProps> = ({
+  difficulty,
+  customConfig,
+  onDifficultyChange,
+  onCustomConfigChange,
+}) => {
+  return (
+    <>
+      <div className="flex items-center gap-2 mb-4 font-mono text-sm">
+        <span className="text-gray-400">LEVEL</span>
+        {DIFFICULTY_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onDifficultyChange(option.value)}
+            className={`flex-1 rounded-lg px-3 py-2 border ${
+              difficulty === option.value
+                ? 'border-neon-green text-neon-green'
+                : 'border-dark-border text-gray-400'
+            }`}
+            aria-pressed={difficulty === option.value}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Custom Values */}
+      {difficulty === 'custom' && (
+        <div className="bg-dark-panel border border-dark-border rounded-lg p-4 mb-4 space-y-2 font-mono text-xs">
+          {CUSTOM_CONFIG_FIELDS.map(field => (
+            <div key={field.key} className="flex items-center gap-2">
+              <label htmlFor={`custom-${field.key}`} className="w-44 text-left text-gray-400">{field.label}</label>
+              <input
+                id={`custom-${field.key}`}
+                type="range"
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                value={customConfig[field.key]}
+                onChange={(e) => onCustomConfigChange(setCustomConfigValue(customConfig, field.key, Number(e.target.value)))}
+                onKeyDown={(e) => {
+                  // Keep arrow keys on the slider instead of steering
+                  if (e.key !== 'Enter') e.stopPropagation();
+                }}
+                className="flex-1 accent-neon-green"
+              />
+              <span className="w-10 text-right text-neon-green">{customConfig[field.key]}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default React.memo(DifficultyPicker);
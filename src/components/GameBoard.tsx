@@ -1,77 +1,216 @@
 /**
  * Game Board Component
  * 
- * Renders the 20x20 game grid with snake, food, and handles user interactions.
+ * Renders the (by default 20x20) game grid with snakes, food, and handles user interactions.
  * Features smooth animations, responsive design, and mobile touch support.
+ * Also used as the cell grid of the level editor.
  */
 
 import React, { useCallback, useMemo } from 'react';
-import { GameBoardProps, Position } from '../types/game.types';
-import { isMobileDevice, calculateCellSize } from '../utils/gameHelpers';
-import SnakeHeadIcon from '../assets/snake-head.svg';
-import SnakeBodyIcon from '../assets/snake-body.svg';
-import FrogIcon from '../assets/frog.svg';
+import { BoardSnake, Food, GameBoardProps, InterpolationSource, Position, PowerUp, SegmentSprite, FOOD_TYPES, POWER_UP_TYPES } from '../types/game.types';
+import { getBoardCellSize, getSegmentSprites } from '../utils/gameHelpers';
+import { useInterpolation } from '../hooks/useInterpolation';
+import { EXPIRY_WARNING_TICKS, FOOD_ICONS, FrogIcon, SEGMENT_ICONS } from './boardAssets';
+
+// Shared defaults so the cell lookups aren't rebuilt every render
+const NO_WALLS: Position[] = [];
+const NO_FOODS: Food[] = [];
+const NO_POWER_UPS: PowerUp[] = [];
+
+// Class for a snake's cells: see-through while ghosting or racing, faded once crashed
+const getSnakeClass = (boardSnake: BoardSnake): string => {
+  if (boardSnake.eliminated) return ' eliminated';
+  if (boardSnake.racer) return ' racer';
+  return boardSnake.ghost ? ' ghost' : '';
+};
+
+// Style turning a segment sprite to face its way, tinted in its snake's colour
+const getSpriteStyle = (boardSnake: BoardSnake, sprite: SegmentSprite): React.CSSProperties => ({
+  transform: `rotate(${sprite.rotation}deg)`,
+  filter: `hue-rotate(${boardSnake.style.hueRotate}deg)`,
+});
+
+interface SnakeHeadsProps {
+  snakes: BoardSnake[];
+  spritesBySnake: SegmentSprite[][];
+  cellSize: number;
+  gap: number;
+  interpolation?: InterpolationSource;
+}
+
+// The snakes' heads, drawn over the grid so they can slide between cells;
+// the only part of the board re-rendered every animation frame
+const SnakeHeads: React.FC<SnakeHeadsProps> = React.memo(({ snakes, spritesBySnake, cellSize, gap, interpolation }) => {
+  const alpha = useInterpolation(interpolation);
+
+  // Offset of a head from its cell, sliding it in from the previous cell
+  const getHeadOffset = (boardSnake: BoardSnake): Position => {
+    const [head, neck] = boardSnake.snake.segments;
+    if (!head || !neck || boardSnake.eliminated) return { x: 0, y: 0 };
+
+    const dx = neck.x - head.x;
+    const dy = neck.y - head.y;
+    if (Math.abs(dx) + Math.abs(dy) !== 1) return { x: 0, y: 0 };
+
+    const remaining = (1 - alpha) * (cellSize + gap);
+    return { x: dx * remaining, y: dy * remaining };
+  };
+
+  return (
+    <>
+      {snakes.map((boardSnake, index) => {
+        const head = boardSnake.snake.segments[0];
+        if (!head) return null;
+
+        const offset = getHeadOffset(boardSnake);
+        const { color } = boardSnake.style;
+        return (
+          <div
+            key={`head-${index}`}
+            className={`game-cell snake-head${getSnakeClass(boardSnake)}`}
+            style={{
+              width: `${cellSize}px`,
+              height: `${cellSize}px`,
+              gridColumn: head.x + 1,
+              gridRow: head.y + 1,
+              transform: `translate(${offset.x}px, ${offset.y}px)`,
+              borderColor: `${color}80`,
+              boxShadow: `0 0 10px ${color}4d, 0 0 20px ${color}33`,
+              zIndex: 1,
+              transition: 'none',
+              pointerEvents: 'none',
+            }}
+          >
+            <img
+              src={SEGMENT_ICONS.HEAD}
+              alt="Snake Head"
+              className="w-full h-full object-contain"
+              style={getSpriteStyle(boardSnake, spritesBySnake[index][0])}
+            />
+          </div>
+        );
+      })}
+    </>
+  );
+});
 
 const GameBoard: React.FC<GameBoardProps> = ({
-  snake,
-  food,
-  boardSize,
+  snakes,
+  foods = NO_FOODS,
+  powerUps = NO_POWER_UPS,
+  boardWidth,
+  boardHeight,
+  walls = NO_WALLS,
+  foodSpawns = NO_WALLS,
+  topology = 'WALLS',
+  interpolation,
+  showGrid = true,
+  showAnimations = true,
+  isPlaying = true,
   onCellClick,
 }) => {
+  // Space between cells, where the grid shows through
+  const gap = showGrid ? 1 : 0;
+
   // Calculate responsive cell size
-  const cellSize = useMemo(() => {
-    const containerWidth = Math.min(window.innerWidth - 40, 600);
-    return calculateCellSize(boardSize, containerWidth);
-  }, [boardSize]);
-
-  // Check if position is snake head
-  const isSnakeHead = useCallback((position: Position) => {
-    return snake.segments.length > 0 && 
-           snake.segments[0].x === position.x && 
-           snake.segments[0].y === position.y;
-  }, [snake.segments]);
-
-  // Check if position is snake body
-  const isSnakeBody = useCallback((position: Position) => {
-    return snake.segments.some((segment, index) => 
-      index > 0 && segment.x === position.x && segment.y === position.y
-    );
-  }, [snake.segments]);
-
-  // Check if position is food
-  const isFood = useCallback((position: Position) => {
-    return food.x === position.x && food.y === position.y;
-  }, [food]);
-
-  // Handle cell click for mobile
+  const cellSize = useMemo(() => getBoardCellSize(boardWidth, boardHeight), [boardWidth, boardHeight]);
+
+  // Every snake's segment sprites, head first
+  const spritesBySnake = useMemo(() => {
+    const board = { width: boardWidth, height: boardHeight };
+    return snakes.map(boardSnake => getSegmentSprites(boardSnake.snake, board, topology));
+  }, [snakes, boardWidth, boardHeight, topology]);
+
+  // Snake body cells and their sprites looked up by "x,y" key
+  const bodyByKey = useMemo(() => {
+    const bodies = new Map<string, { boardSnake: BoardSnake; sprite: SegmentSprite }>();
+    snakes.forEach((boardSnake, index) => {
+      boardSnake.snake.segments.forEach((segment, segmentIndex) => {
+        if (segmentIndex === 0) return;
+        bodies.set(`${segment.x},${segment.y}`, { boardSnake, sprite: spritesBySnake[index][segmentIndex] });
+      });
+    });
+    return bodies;
+  }, [snakes, spritesBySnake]);
+
+  // Wall cells looked up by "x,y" key
+  const wallKeys = useMemo(() => {
+    return new Set(walls.map(wall => `${wall.x},${wall.y}`));
+  }, [walls]);
+
+  // Food spawn cells looked up by "x,y" key
+  const spawnKeys = useMemo(() => {
+    return new Set(foodSpawns.map(spawn => `${spawn.x},${spawn.y}`));
+  }, [foodSpawns]);
+
+  // Food looked up by "x,y" key
+  const foodByKey = useMemo(() => {
+    return new Map(foods.map(food => [`${food.position.x},${food.position.y}`, food]));
+  }, [foods]);
+
+  // Power-ups looked up by "x,y" key
+  const powerUpByKey = useMemo(() => {
+    return new Map(powerUps.map(powerUp => [`${powerUp.position.x},${powerUp.position.y}`, powerUp]));
+  }, [powerUps]);
+
+  // Handle cell click
   const handleCellClick = useCallback((position: Position) => {
-    if (onCellClick && isMobileDevice()) {
-      onCellClick(position);
-    }
+    onCellClick?.(position);
   }, [onCellClick]);
 
   // Generate grid cells
   const gridCells = useMemo(() => {
     const cells = [];
-    for (let y = 0; y < boardSize; y++) {
-      for (let x = 0; x < boardSize; x++) {
+    for (let y = 0; y < boardHeight; y++) {
+      for (let x = 0; x < boardWidth; x++) {
         const position = { x, y };
-        const isHead = isSnakeHead(position);
-        const isBody = isSnakeBody(position);
-        const isFoodCell = isFood(position);
+        const body = bodyByKey.get(`${x},${y}`);
+        const foodCell = foodByKey.get(`${x},${y}`);
+        const powerUpCell = powerUpByKey.get(`${x},${y}`);
         
         let cellClass = 'game-cell';
         let cellContent = null;
 
-        if (isHead) {
-          cellClass += ' snake-head';
-          cellContent = <img src={SnakeHeadIcon} alt="Snake Head" className="w-full h-full object-contain" />;
-        } else if (isBody) {
-          cellClass += ' snake-segment';
-          cellContent = <img src={SnakeBodyIcon} alt="Snake Body" className="w-full h-full object-contain" />;
-        } else if (isFoodCell) {
-          cellClass += ' food';
-          cellContent = <img src={FrogIcon} alt="Frog Food" className="w-full h-full object-contain animate-pulse" />;
+        // The head is drawn separately below so it can move between cells every frame,
+        // and a raced ghost never hides food or power-ups
+        if (wallKeys.has(`${x},${y}`)) {
+          cellClass += ' wall';
+        } else if (body && !(body.boardSnake.racer && (foodCell || powerUpCell))) {
+          cellClass += ` snake-segment${getSnakeClass(body.boardSnake)}`;
+          cellContent = (
+            <img
+              src={SEGMENT_ICONS[body.sprite.shape]}
+              alt="Snake Body"
+              className="w-full h-full object-contain"
+              style={getSpriteStyle(body.boardSnake, body.sprite)}
+            />
+          );
+        } else if (foodCell) {
+          cellClass += ` food food-${foodCell.kind.toLowerCase()}`;
+          if (foodCell.ticksLeft !== null && foodCell.ticksLeft <= EXPIRY_WARNING_TICKS) {
+            cellClass += ' food-expiring';
+          }
+          cellContent = (
+            <img
+              src={FOOD_ICONS[foodCell.kind]}
+              alt={FOOD_TYPES[foodCell.kind].name}
+              className={`w-full h-full object-contain${showAnimations ? ' animate-pulse' : ''}`}
+            />
+          );
+        } else if (powerUpCell) {
+          const type = POWER_UP_TYPES[powerUpCell.kind];
+          cellClass += ' power-up';
+          if (powerUpCell.ticksLeft <= EXPIRY_WARNING_TICKS) {
+            cellClass += ' food-expiring';
+          }
+          cellContent = (
+            <span role="img" aria-label={type.name} title={type.name} style={{ fontSize: `${cellSize * 0.6}px`, color: type.color }}>
+              {type.icon}
+            </span>
+          );
+        } else if (spawnKeys.has(`${x},${y}`)) {
+          cellClass += ' food-spawn';
+          cellContent = <img src={FrogIcon} alt="Food Spawn" className="w-full h-full object-contain opacity-30" />;
         }
 
         cells.push(
@@ -94,22 +233,56 @@ const GameBoard: React.FC<GameBoardProps> = ({
       }
     }
     return cells;
-  }, [boardSize, cellSize, isSnakeHead, isSnakeBody, isFood, handleCellClick]);
+  }, [boardWidth, boardHeight, cellSize, showAnimations, wallKeys, spawnKeys, bodyByKey, foodByKey, powerUpByKey, handleCellClick]);
 
   return (
     <div className="flex justify-center items-center p-4">
       <div
-        className="game-container p-4"
+        className={`game-container p-4 ${topology === 'WRAP' ? 'wrap-edges' : ''}${showGrid ? '' : ' no-grid'}${
+          showAnimations ? '' : ' no-animations'
+        }${isPlaying ? '' : ' board-still'}`}
+        title={topology === 'WRAP' ? 'Edges wrap around' : undefined}
         style={{
           display: 'grid',
-          gridTemplateColumns: `repeat(${boardSize}, ${cellSize}px)`,
-          gridTemplateRows: `repeat(${boardSize}, ${cellSize}px)`,
-          gap: '1px',
+          gridTemplateColumns: `repeat(${boardWidth}, ${cellSize}px)`,
+          gridTemplateRows: `repeat(${boardHeight}, ${cellSize}px)`,
+          gap: `${gap}px`,
           width: 'fit-content',
           height: 'fit-content',
         }}
       >
         {gridCells}
+        {snakes.flatMap((boardSnake, index) => {
+          const { hint } = boardSnake;
+          if (!hint) return [];
+
+          // Practice overlay: the safe path in the snake's colour, a dead end in red
+          const hintCells = [
+            ...hint.path.map(cell => ({ cell, className: 'hint-path', color: boardSnake.style.color })),
+            ...hint.trappedCells.map(cell => ({ cell, className: 'hint-trap', color: '#ff0000' })),
+          ];
+          return hintCells.map(({ cell, className, color }) => (
+            <div
+              key={`hint-${index}-${className}-${cell.x}-${cell.y}`}
+              className={`hint-cell ${className}`}
+              style={{
+                width: `${cellSize}px`,
+                height: `${cellSize}px`,
+                gridColumn: cell.x + 1,
+                gridRow: cell.y + 1,
+                backgroundColor: `${color}33`,
+                borderColor: `${color}80`,
+              }}
+            />
+          ));
+        })}
+        <SnakeHeads
+          snakes={snakes}
+          spritesBySnake={spritesBySnake}
+          cellSize={cellSize}
+          gap={gap}
+          interpolation={interpolation}
+        />
       </div>
     </div>
   );
@@ -6,7 +6,45 @@
  */
 
 import React from 'react';
-import { GameControlsProps } from '../types/game.types';
+import {
+  GameControlsProps,
+  BoardTopology,
+  BotDifficulty,
+  GameMode,
+  DEFAULT_GAME_SETUP,
+  MAX_BOTS,
+  TIME_ATTACK_LIMITS
+} from '../types/game.types';
+import { CAMPAIGN_STAGES, describeGoal, getStage } from '../engine/campaign';
+import DifficultyPicker from './DifficultyPicker';
+
+// Selectable player modes
+const MODE_OPTIONS: { value: GameMode; label: string }[] = [
+  { value: 'SOLO', label: '1P SOLO' },
+  { value: 'VERSUS', label: '2P VERSUS' },
+];
+
+// Selectable number of bot opponents
+const BOT_COUNT_OPTIONS = Array.from({ length: MAX_BOTS + 1 }, (_, count) => count);
+
+// Selectable bot difficulty tiers
+const BOT_DIFFICULTY_OPTIONS: { value: BotDifficulty; label: string }[] = [
+  { value: 'GREEDY', label: 'GREEDY' },
+  { value: 'SAFE_PATH', label: 'SAFE PATH' },
+  { value: 'SURVIVAL', label: 'SURVIVAL' },
+];
+
+// Selectable clocks: endless, or a time-attack length in seconds
+const TIME_LIMIT_OPTIONS: { value: number | undefined; label: string }[] = [
+  { value: undefined, label: 'ENDLESS' },
+  ...TIME_ATTACK_LIMITS.map(seconds => ({ value: seconds, label: `${seconds}s` })),
+];
+
+// Selectable board topologies
+const TOPOLOGY_OPTIONS: { value: BoardTopology; label: string }[] = [
+  { value: 'WALLS', label: 'CLASSIC' },
+  { value: 'WRAP', label: 'WRAP' },
+];
 
 const GameControls: React.FC<GameControlsProps> = ({
   gameState,
@@ -15,6 +53,18 @@ const GameControls: React.FC<GameControlsProps> = ({
   onPause,
   onResume,
   onReset,
+  seedInput,
+  onSeedInputChange,
+  setup,
+  onSetupChange,
+  maps,
+  ghostRace,
+  onGhostRaceChange,
+  difficulty,
+  customConfig,
+  onDifficultyChange,
+  onCustomConfigChange,
+  onOpenSettings,
 }) => {
   // Get button text and state based on game state
   const getButtonConfig = () => {
@@ -43,6 +93,7 @@ const GameControls: React.FC<GameControlsProps> = ({
           secondaryAction: onReset,
           showSecondary: true,
         };
+      case 'STAGE_COMPLETE':
       case 'GAME_OVER':
         return {
           primaryText: 'PLAY AGAIN',
@@ -64,8 +115,236 @@ const GameControls: React.FC<GameControlsProps> = ({
 
   const buttonConfig = getButtonConfig();
 
+  // Game options can only be chosen before a game starts
+  const canEditSetup = gameState === 'READY' || gameState === 'STAGE_COMPLETE' || gameState === 'GAME_OVER';
+
+  const isVersus = setup.mode === 'VERSUS';
+
+  // Campaign stages fix every option but the seed
+  const stage = getStage(setup.stageId);
+  const canEditOptions = canEditSetup && !stage;
+
   return (
     <div className="w-full max-w-md mx-auto mb-6">
+      {/* Campaign Stage */}
+      {canEditSetup && stage && (
+        <div className="flex items-center gap-2 mb-4 font-mono text-sm">
+          <div className="flex-1">
+            <div className="text-neon-green">
+              STAGE {CAMPAIGN_STAGES.indexOf(stage) + 1}: {stage.map.name}
+            </div>
+            <div className="text-xs text-gray-400">{describeGoal(stage.goal)}</div>
+          </div>
+          <button
+            onClick={() => onSetupChange({ ...setup, stageId: undefined, mapId: DEFAULT_GAME_SETUP.mapId })}
+            className="rounded-lg px-3 py-2 border border-neon-blue text-neon-blue"
+          >
+            LEAVE CAMPAIGN
+          </button>
+        </div>
+      )}
+
+      {/* Difficulty */}
+      {canEditSetup && (
+        <DifficultyPicker
+          difficulty={difficulty}
+          customConfig={customConfig}
+          onDifficultyChange={onDifficultyChange}
+          onCustomConfigChange={onCustomConfigChange}
+        />
+      )}
+
+      {/* Players */}
+      {canEditOptions && (
+        <div className="flex items-center gap-2 mb-4 font-mono text-sm">
+          <span className="text-gray-400">PLAYERS</span>
+          {MODE_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onSetupChange({ ...setup, mode: option.value })}
+              className={`flex-1 rounded-lg px-3 py-2 border ${
+                setup.mode === option.value
+                  ? 'border-neon-green text-neon-green'
+                  : 'border-dark-border text-gray-400'
+              }`}
+              aria-pressed={setup.mode === option.value}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Bot Opponents */}
+      {canEditOptions && (
+        <div className="flex items-center gap-2 mb-4 font-mono text-sm">
+          <span className="text-gray-400">BOTS</span>
+          {BOT_COUNT_OPTIONS.map(count => (
+            <button
+              key={count}
+              onClick={() => onSetupChange({ ...setup, bots: count })}
+              className={`flex-1 rounded-lg px-3 py-2 border ${
+                setup.bots === count
+                  ? 'border-neon-green text-neon-green'
+                  : 'border-dark-border text-gray-400'
+              }`}
+              aria-pressed={setup.bots === count}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Bot Difficulty */}
+      {canEditOptions && setup.bots > 0 && (
+        <div className="flex items-center gap-2 mb-4 font-mono text-sm">
+          <span className="text-gray-400">AI</span>
+          {BOT_DIFFICULTY_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onSetupChange({ ...setup, botDifficulty: option.value })}
+              className={`flex-1 rounded-lg px-3 py-2 border ${
+                setup.botDifficulty === option.value
+                  ? 'border-neon-green text-neon-green'
+                  : 'border-dark-border text-gray-400'
+              }`}
+              aria-pressed={setup.botDifficulty === option.value}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Time Attack */}
+      {canEditOptions && (
+        <div className="flex items-center gap-2 mb-4 font-mono text-sm">
+          <span className="text-gray-400">CLOCK</span>
+          {TIME_LIMIT_OPTIONS.map(option => (
+            <button
+              key={option.label}
+              onClick={() => onSetupChange({ ...setup, timeLimit: option.value })}
+              className={`flex-1 rounded-lg px-3 py-2 border ${
+                setup.timeLimit === option.value
+                  ? 'border-neon-green text-neon-green'
+                  : 'border-dark-border text-gray-400'
+              }`}
+              aria-pressed={setup.timeLimit === option.value}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Practice Hints */}
+      {canEditOptions && (
+        <div className="flex items-center gap-2 mb-4 font-mono text-sm">
+          <span className="text-gray-400">HINTS</span>
+          {[false, true].map(practice => (
+            <button
+              key={String(practice)}
+              onClick={() => onSetupChange({ ...setup, practice })}
+              className={`flex-1 rounded-lg px-3 py-2 border ${
+                setup.practice === practice
+                  ? 'border-neon-green text-neon-green'
+                  : 'border-dark-border text-gray-400'
+              }`}
+              aria-pressed={setup.practice === practice}
+            >
+              {practice ? 'PRACTICE' : 'OFF'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Board Topology */}
+      {canEditOptions && (
+        <div className="flex items-center gap-2 mb-4 font-mono text-sm">
+          <span className="text-gray-400">MODE</span>
+          {TOPOLOGY_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onSetupChange({ ...setup, topology: option.value })}
+              className={`flex-1 rounded-lg px-3 py-2 border ${
+                setup.topology === option.value
+                  ? 'border-neon-green text-neon-green'
+                  : 'border-dark-border text-gray-400'
+              }`}
+              aria-pressed={setup.topology === option.value}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Map Selection */}
+      {canEditOptions && (
+        <div className="flex items-center gap-2 mb-4 font-mono text-sm">
+          <label htmlFor="game-map" className="text-gray-400">MAP</label>
+          <select
+            id="game-map"
+            value={setup.mapId}
+            onChange={(e) => onSetupChange({ ...setup, mapId: e.target.value })}
+            className="flex-1 bg-dark-panel border border-dark-border rounded-lg px-3 py-2 text-neon-green"
+          >
+            {maps.map(map => (
+              <option key={map.id} value={map.id}>
+                {map.name} ({map.width}x{map.height})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Seed Input */}
+      {canEditSetup && (
+        <div className="flex items-center gap-2 mb-4 font-mono text-sm">
+          <label htmlFor="game-seed" className="text-gray-400">SEED</label>
+          <input
+            id="game-seed"
+            type="text"
+            value={seedInput}
+            onChange={(e) => onSeedInputChange(e.target.value)}
+            onKeyDown={(e) => {
+              // Keep typed letters from triggering game shortcuts, but let Enter start
+              if (e.key !== 'Enter') e.stopPropagation();
+            }}
+            placeholder="Random"
+            className="flex-1 bg-dark-panel border border-dark-border rounded-lg px-3 py-2 text-neon-green"
+          />
+        </div>
+      )}
+
+      {/* Ghost Race */}
+      {canEditSetup && (
+        <div className="flex items-center gap-2 mb-4 font-mono text-sm">
+          <span className="text-gray-400">GHOST</span>
+          {[false, true].map(option => (
+            <button
+              key={String(option)}
+              onClick={() => onGhostRaceChange(option)}
+              className={`flex-1 rounded-lg px-3 py-2 border ${
+                ghostRace === option
+                  ? 'border-neon-green text-neon-green'
+                  : 'border-dark-border text-gray-400'
+              }`}
+              aria-pressed={ghostRace === option}
+              title={option ? 'Race your best run on the chosen seed' : undefined}
+            >
+              {option ? 'RACE BEST' : 'OFF'}
+            </button>
+          ))}
+        </div>
+      )}
+      {canEditSetup && ghostRace && seedInput.trim() === '' && (
+        <div className="-mt-2 mb-4 font-mono text-xs text-gray-500 text-center">
+          Enter a seed to race your best run on it
+        </div>
+      )}
+
       {/* Control Buttons */}
       <div className="flex flex-col sm:flex-row gap-4 mb-6">
         {/* Primary Button */}
@@ -89,6 +368,16 @@ const GameControls: React.FC<GameControlsProps> = ({
         )}
       </div>
 
+      {/* Settings */}
+      <div className="flex justify-center mb-6">
+        <button
+          onClick={onOpenSettings}
+          className="control-button px-6 py-3 font-gaming border-neon-blue text-neon-blue hover:bg-neon-blue hover:text-dark-bg"
+        >
+          ⚙ SETTINGS
+        </button>
+      </div>
+
       {/* Game Instructions */}
       <div className="bg-dark-panel border border-dark-border rounded-lg p-4">
         <h3 className="font-gaming font-bold text-neon-blue mb-3 text-center">
@@ -100,10 +389,23 @@ const GameControls: React.FC<GameControlsProps> = ({
           <div>
             <div className="text-gray-400 mb-2">Desktop:</div>
             <div className="space-y-1 text-xs">
-              <div className="flex justify-between">
-                <span>Move:</span>
-                <span className="text-neon-green">Arrow Keys</span>
-              </div>
+              {isVersus ? (
+                <>
+                  <div className="flex justify-between">
+                    <span>P1 Move:</span>
+                    <span className="text-neon-green">WASD</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>P2 Move:</span>
+                    <span className="text-neon-blue">Arrow Keys</span>
+                  </div>
+                </>
+              ) : (
+                <div className="flex justify-between">
+                  <span>Move:</span>
+                  <span className="text-neon-green">Arrow Keys</span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span>Pause:</span>
                 <span className="text-neon-green">Space</span>
@@ -147,12 +449,14 @@ const GameControls: React.FC<GameControlsProps> = ({
             gameState === 'PLAYING' && !isPaused ? 'bg-neon-green animate-pulse' :
             gameState === 'PAUSED' ? 'bg-yellow-400' :
             gameState === 'GAME_OVER' ? 'bg-neon-red' :
+            gameState === 'STAGE_COMPLETE' ? 'bg-neon-green' :
             'bg-neon-blue'
           }`} />
           <span className="text-sm font-mono text-gray-300">
             {gameState === 'PLAYING' && !isPaused ? 'Game Running' :
              gameState === 'PAUSED' ? 'Paused' :
              gameState === 'GAME_OVER' ? 'Game Over' :
+             gameState === 'STAGE_COMPLETE' ? 'Stage Clear' :
              'Ready to Play'}
           </span>
         </div>
@@ -0,0 +1,69 @@
+/**
+ * Game History Panel Component
+ *
+ * Lists recently finished games from the local history, newest first, with
+ * a button to watch each game's replay.
+ */
+
+import React from 'react';
+import { GameHistoryPanelProps } from '../types/game.types';
+import { formatScore, formatTime } from '../utils/gameHelpers';
+import { REPLAY_VERSION } from '../engine/replay';
+
+const GameHistoryPanel: React.FC<GameHistoryPanelProps> = ({ history, onWatch, onClear, onClose }) => {
+  return (
+    <div className="w-full max-w-2xl mx-auto mb-6 font-mono text-sm">
+      <h2 className="font-gaming font-bold text-neon-blue text-xl text-center mb-4">GAME HISTORY</h2>
+
+      {history.length === 0 ? (
+        <div className="text-center text-gray-400 mb-4">No games played yet</div>
+      ) : (
+        <div className="space-y-2 mb-4">
+          {history.map((entry, index) => (
+            <div
+              key={`${entry.date}-${index}`}
+              className="flex items-center gap-4 bg-dark-panel border border-dark-border rounded-lg px-4 py-2"
+            >
+              <div className="flex-1">
+                <div className="text-neon-green font-gaming font-bold">{formatScore(entry.score)}</div>
+                <div className="text-xs text-gray-400">
+                  {new Date(entry.date).toLocaleString()} • Level {entry.level} • Length {entry.snakeLength} •{' '}
+                  {formatTime(entry.playTime)}
+                  {entry.replay && ` • ${entry.replay.map.name}${entry.replay.setup.mode === 'VERSUS' ? ' • 2P' : ''}`}
+                  {entry.replay?.setup.timeLimit && ` • ⏱ ${entry.replay.setup.timeLimit}s`}
+                </div>
+              </div>
+              <button
+                onClick={() => entry.replay && onWatch(entry.replay)}
+                className="rounded-lg px-3 py-2 border border-neon-green text-neon-green disabled:opacity-30"
+                disabled={entry.replay?.version !== REPLAY_VERSION}
+                title={entry.replay && entry.replay.version !== REPLAY_VERSION ? 'Recorded by an older version of the game' : undefined}
+              >
+                ▶ WATCH
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-center gap-4">
+        {history.length > 0 && (
+          <button
+            onClick={onClear}
+            className="control-button px-6 py-3 font-gaming border-neon-red text-neon-red hover:bg-neon-red hover:text-dark-bg"
+          >
+            CLEAR
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="control-button px-6 py-3 font-gaming border-neon-blue text-neon-blue hover:bg-neon-blue hover:text-dark-bg"
+        >
+          CLOSE
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default React.memo(GameHistoryPanel);
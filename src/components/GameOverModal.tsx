@@ -14,7 +14,12 @@ const GameOverModal: React.FC<GameOverModalProps> = ({
   finalScore,
   bestScore,
   level,
+  players,
+  winner,
+  foodEaten,
+  endReason,
   onPlayAgain,
+  onWatchReplay,
   onClose,
 }) => {
   const [isVisible, setIsVisible] = useState(false);
@@ -50,6 +55,7 @@ const GameOverModal: React.FC<GameOverModalProps> = ({
   if (!isVisible) return null;
 
   const isNewBest = finalScore > bestScore;
+  const hasOpponents = players.length > 1;
 
   // Get achievement message based on score
   const getAchievementMessage = () => {
@@ -77,26 +83,59 @@ const GameOverModal: React.FC<GameOverModalProps> = ({
         {/* Game Over Title */}
         <div className="mb-6">
           <h2 className="font-gaming font-black text-4xl text-neon-red mb-2 animate-pulse">
-            GAME OVER
+            {endReason === 'TIME_UP' ? "⏱ TIME'S UP" : 'GAME OVER'}
           </h2>
           <div className="w-full h-1 bg-gradient-to-r from-neon-red to-neon-blue rounded-full"></div>
         </div>
 
-        {/* Final Score */}
-        <div className="mb-6">
-          <div className="text-center">
-            <div className="text-sm text-gray-400 font-mono mb-2">FINAL SCORE</div>
-            <div className="font-gaming font-black text-5xl text-neon-green mb-2">
-              {formatScore(finalScore)}
+        {/* Winner (versus and bots) */}
+        {hasOpponents && (
+          <div className="mb-6">
+            <div
+              className="font-gaming font-black text-3xl mb-4"
+              style={{color: winner ? winner.style.color : '#facc15'}}
+            >
+              {winner ? `🏆 ${winner.name} WINS! 🏆` : '🤝 DRAW 🤝'}
             </div>
-            
-            {isNewBest && (
-              <div className="bg-neon-green text-dark-bg px-4 py-2 rounded-lg font-gaming font-bold animate-bounce">
-                🎉 NEW BEST SCORE! 🎉
+            <div className="grid grid-cols-2 gap-4">
+              {players.map(player => (
+                <div
+                  key={player.id}
+                  className="bg-dark-panel rounded-lg p-3 text-center"
+                  style={{border: `1px solid ${player.style.color}`}}
+                >
+                  <div className="text-xs font-mono mb-1" style={{color: player.style.color}}>
+                    {player.bot ? '🤖 ' : ''}{player.name}
+                  </div>
+                  <div className="font-gaming font-bold text-2xl" style={{color: player.style.color}}>
+                    {formatScore(player.score)}
+                  </div>
+                  <div className="text-xs text-gray-400 font-mono">
+                    {player.snake.segments.length} segments{player.alive ? '' : ' • crashed'}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Final Score */}
+        {!hasOpponents && (
+          <div className="mb-6">
+            <div className="text-center">
+              <div className="text-sm text-gray-400 font-mono mb-2">FINAL SCORE</div>
+              <div className="font-gaming font-black text-5xl text-neon-green mb-2">
+                {formatScore(finalScore)}
               </div>
-            )}
+            
+              {isNewBest && (
+                <div className="bg-neon-green text-dark-bg px-4 py-2 rounded-lg font-gaming font-bold animate-bounce">
+                  🎉 NEW BEST SCORE! 🎉
+                </div>
+              )}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Score Comparison */}
         <div className="grid grid-cols-2 gap-4 mb-6">
@@ -123,12 +162,14 @@ const GameOverModal: React.FC<GameOverModalProps> = ({
         </div>
 
         {/* Snake Length Stats */}
-        <div className="mb-6 text-center">
-          <div className="text-sm text-gray-400 font-mono mb-2">SNAKE LENGTH</div>
-          <div className="font-gaming font-bold text-2xl text-neon-green">
-            {Math.floor(finalScore / 10) + 3} segments
+        {!hasOpponents && (
+          <div className="mb-6 text-center">
+            <div className="text-sm text-gray-400 font-mono mb-2">SNAKE LENGTH</div>
+            <div className="font-gaming font-bold text-2xl text-neon-green">
+              {players[0].snake.segments.length} segments
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Action Buttons */}
         <div className="flex flex-col sm:flex-row gap-4">
@@ -138,6 +179,15 @@ const GameOverModal: React.FC<GameOverModalProps> = ({
           >
             PLAY AGAIN
           </button>
+
+          {onWatchReplay && (
+            <button
+              onClick={onWatchReplay}
+              className="control-button flex-1 py-4 text-lg font-gaming"
+            >
+              REPLAY
+            </button>
+          )}
           
           <button
             onClick={onClose}
@@ -156,7 +206,7 @@ const GameOverModal: React.FC<GameOverModalProps> = ({
             </div>
             <div>
               <div className="text-gray-400 mb-1">Food Eaten</div>
-              <div className="text-neon-green font-bold">{Math.floor(finalScore / 10)}</div>
+              <div className="text-neon-green font-bold">{foodEaten}</div>
             </div>
           </div>
         </div>
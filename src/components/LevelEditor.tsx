@@ -0,0 +1,355 @@
+/**
+ * Level Editor Component
+ *
+ * In-browser editor for obstacle maps, built on the GameBoard cell grid.
+ * Paint walls, place the start and fixed food spawns, resize the board,
+ * then test-play, save to localStorage or export/import level files.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { BoardSnake, Direction, LevelDefinition, LevelEditorProps, Position, PLAYER_STYLES } from '../types/game.types';
+import {
+  createBlankLevel,
+  getStartSegments,
+  parseLevel,
+  serializeLevel,
+  validateLevel,
+  MIN_LEVEL_SIZE,
+  MAX_LEVEL_SIZE
+} from '../engine/levelFormat';
+import { isPositionInBounds, positionsEqual } from '../utils/gameHelpers';
+import GameBoard from './GameBoard';
+
+type EditorTool = 'WALL' | 'ERASE' | 'START' | 'FOOD';
+
+const TOOLS: { value: EditorTool; label: string }[] = [
+  { value: 'WALL', label: '# WALL' },
+  { value: 'ERASE', label: '. ERASE' },
+  { value: 'START', label: 'S START' },
+  { value: 'FOOD', label: '* FOOD' },
+];
+
+const HEADINGS: { value: Direction; label: string }[] = [
+  { value: 'UP', label: '↑' },
+  { value: 'DOWN', label: '↓' },
+  { value: 'LEFT', label: '←' },
+  { value: 'RIGHT', label: '→' },
+];
+
+// New ids for levels created, copied or imported in the editor
+const createLevelId = (): string => `custom-${Date.now().toString(36)}`;
+
+// Remove a cell from a list of cells
+const withoutCell = (cells: Position[], cell: Position): Position[] => {
+  return cells.filter(other => !positionsEqual(other, cell));
+};
+
+/**
+ * Apply an editing tool to a single cell
+ */
+const applyTool = (level: LevelDefinition, tool: EditorTool, cell: Position): LevelDefinition => {
+  const cleared = {
+    ...level,
+    walls: withoutCell(level.walls, cell),
+    foodSpawns: withoutCell(level.foodSpawns, cell),
+  };
+  const onStart = positionsEqual(cell, level.start);
+
+  switch (tool) {
+    case 'WALL':
+      if (onStart) return level;
+      // Clicking a wall again removes it
+      return cleared.walls.length < level.walls.length ? cleared : { ...cleared, walls: [...cleared.walls, cell] };
+    case 'ERASE':
+      return cleared;
+    case 'START':
+      return { ...cleared, start: cell };
+    case 'FOOD':
+      if (onStart) return level;
+      return { ...cleared, foodSpawns: [...cleared.foodSpawns, cell] };
+    default:
+      return level;
+  }
+};
+
+/**
+ * Resize the board, dropping walls and spawns that fall outside it
+ */
+const resizeLevel = (level: LevelDefinition, width: number, height: number): LevelDefinition => {
+  const board = { width, height };
+  return {
+    ...level,
+    width,
+    height,
+    walls: level.walls.filter(wall => isPositionInBounds(wall, board)),
+    foodSpawns: level.foodSpawns.filter(spawn => isPositionInBounds(spawn, board)),
+    start: { x: Math.min(level.start.x, width - 1), y: Math.min(level.start.y, height - 1) },
+  };
+};
+
+// Keep a typed board size inside the allowed range
+const clampSize = (value: string, fallback: number): number => {
+  const size = parseInt(value, 10);
+  if (Number.isNaN(size)) return fallback;
+  return Math.min(Math.max(size, MIN_LEVEL_SIZE), MAX_LEVEL_SIZE);
+};
+
+const LevelEditor: React.FC<LevelEditorProps> = ({
+  initialLevel,
+  builtinLevels,
+  savedLevels,
+  onSave,
+  onDelete,
+  onTestPlay,
+  onClose,
+}) => {
+  const [level, setLevel] = useState<LevelDefinition>(() => initialLevel ?? createBlankLevel(createLevelId()));
+  const [tool, setTool] = useState<EditorTool>('WALL');
+  const [widthInput, setWidthInput] = useState(String(level.width));
+  const [heightInput, setHeightInput] = useState(String(level.height));
+  const [message, setMessage] = useState<string | null>(null);
+
+  const validationError = useMemo(() => validateLevel(level), [level]);
+  const isSaved = savedLevels.some(saved => saved.id === level.id);
+
+  // Starting snake drawn on the start cell
+  const startSnakes = useMemo<BoardSnake[]>(() => [{
+    snake: {
+      segments: getStartSegments(level.start, level.startDirection),
+      direction: level.startDirection,
+      directionQueue: [],
+    },
+    style: PLAYER_STYLES[0],
+  }], [level.start, level.startDirection]);
+
+  // Load a level into the editor
+  const loadLevel = useCallback((next: LevelDefinition) => {
+    setLevel(next);
+    setWidthInput(String(next.width));
+    setHeightInput(String(next.height));
+  }, []);
+
+  // Paint the clicked cell with the current tool
+  const handleCellClick = useCallback((position: Position) => {
+    setLevel(prev => applyTool(prev, tool, position));
+    setMessage(null);
+  }, [tool]);
+
+  // Apply the typed board size
+  const handleResize = () => {
+    const width = clampSize(widthInput, level.width);
+    const height = clampSize(heightInput, level.height);
+    loadLevel(resizeLevel(level, width, height));
+  };
+
+  // Open a built-in or saved level; built-ins are edited as a copy
+  const handleOpen = (levelId: string) => {
+    const saved = savedLevels.find(candidate => candidate.id === levelId);
+    if (saved) {
+      loadLevel(saved);
+      return;
+    }
+
+    const builtin = builtinLevels.find(candidate => candidate.id === levelId);
+    if (builtin) {
+      loadLevel({ ...builtin, id: createLevelId(), name: `${builtin.name} Copy` });
+    }
+  };
+
+  const handleSave = () => {
+    onSave(level);
+    setMessage(`Saved "${level.name}"`);
+  };
+
+  const handleDelete = () => {
+    onDelete(level.id);
+    loadLevel(createBlankLevel(createLevelId()));
+    setMessage('Level deleted');
+  };
+
+  // Download the level as a plain-text file
+  const handleExport = () => {
+    const blob = new Blob([serializeLevel(level)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${level.name.trim().replace(/[^\w-]+/g, '-').toLowerCase() || 'level'}.txt`;
+    link.click();
+    // Revoking straight away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  // Read a level file chosen by the user
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = parseLevel(await file.text(), createLevelId());
+    if (result.ok) {
+      loadLevel(result.value);
+      setMessage(`Imported "${result.value.name}"`);
+    } else {
+      setMessage(`Import failed: ${result.error}`);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto mb-6 font-mono text-sm">
+      {/* Title and Name */}
+      <div className="flex flex-col sm:flex-row items-center gap-4 mb-4">
+        <h2 className="font-gaming font-bold text-neon-blue text-xl">LEVEL EDITOR</h2>
+        <input
+          type="text"
+          value={level.name}
+          onChange={(e) => setLevel({ ...level, name: e.target.value })}
+          aria-label="Level name"
+          className="flex-1 bg-dark-panel border border-dark-border rounded-lg px-3 py-2 text-neon-green"
+        />
+        <select
+          value=""
+          onChange={(e) => handleOpen(e.target.value)}
+          aria-label="Open level"
+          className="bg-dark-panel border border-dark-border rounded-lg px-3 py-2 text-gray-300"
+        >
+          <option value="" disabled>Open…</option>
+          <optgroup label="Built-in (copy)">
+            {builtinLevels.map(builtin => (
+              <option key={builtin.id} value={builtin.id}>{builtin.name}</option>
+            ))}
+          </optgroup>
+          {savedLevels.length > 0 && (
+            <optgroup label="Saved">
+              {savedLevels.map(saved => (
+                <option key={saved.id} value={saved.id}>{saved.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </div>
+
+      {/* Tools */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {TOOLS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setTool(option.value)}
+            className={`rounded-lg px-3 py-2 border ${
+              tool === option.value ? 'border-neon-green text-neon-green' : 'border-dark-border text-gray-400'
+            }`}
+            aria-pressed={tool === option.value}
+          >
+            {option.label}
+          </button>
+        ))}
+
+        <span className="text-gray-400 ml-2">HEADING</span>
+        {HEADINGS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setLevel({ ...level, startDirection: option.value })}
+            className={`rounded-lg px-3 py-2 border ${
+              level.startDirection === option.value ? 'border-neon-green text-neon-green' : 'border-dark-border text-gray-400'
+            }`}
+            aria-label={`Start heading ${option.value.toLowerCase()}`}
+            aria-pressed={level.startDirection === option.value}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Board Size */}
+      <div className="flex items-center gap-2 mb-4">
+        <span className="text-gray-400">SIZE</span>
+        <input
+          type="number"
+          min={MIN_LEVEL_SIZE}
+          max={MAX_LEVEL_SIZE}
+          value={widthInput}
+          onChange={(e) => setWidthInput(e.target.value)}
+          aria-label="Board width"
+          className="w-20 bg-dark-panel border border-dark-border rounded-lg px-3 py-2 text-neon-green"
+        />
+        <span className="text-gray-400">x</span>
+        <input
+          type="number"
+          min={MIN_LEVEL_SIZE}
+          max={MAX_LEVEL_SIZE}
+          value={heightInput}
+          onChange={(e) => setHeightInput(e.target.value)}
+          aria-label="Board height"
+          className="w-20 bg-dark-panel border border-dark-border rounded-lg px-3 py-2 text-neon-green"
+        />
+        <button onClick={handleResize} className="rounded-lg px-3 py-2 border border-dark-border text-gray-300">
+          APPLY
+        </button>
+      </div>
+
+      {/* Board */}
+      <div className="flex justify-center mb-4 cursor-crosshair">
+        <GameBoard
+          snakes={startSnakes}
+          boardWidth={level.width}
+          boardHeight={level.height}
+          walls={level.walls}
+          foodSpawns={level.foodSpawns}
+          onCellClick={handleCellClick}
+        />
+      </div>
+
+      {/* Status */}
+      <div className={`text-center mb-4 ${validationError ? 'text-neon-red' : 'text-gray-400'}`}>
+        {validationError ?? message ?? `${level.walls.length} walls • ${level.foodSpawns.length} food spawns`}
+      </div>
+
+      {/* Actions */}
+      <div className="flex flex-wrap justify-center gap-4">
+        <button
+          onClick={() => onTestPlay(level)}
+          className="control-button px-6 py-3 font-gaming"
+          disabled={validationError !== null}
+        >
+          TEST PLAY
+        </button>
+        <button
+          onClick={handleSave}
+          className="control-button px-6 py-3 font-gaming"
+          disabled={validationError !== null}
+        >
+          SAVE
+        </button>
+        <button
+          onClick={handleExport}
+          className="control-button px-6 py-3 font-gaming"
+          disabled={validationError !== null}
+        >
+          EXPORT
+        </button>
+        <label className="control-button px-6 py-3 font-gaming cursor-pointer">
+          IMPORT
+          <input type="file" accept=".txt,text/plain" onChange={handleImport} className="hidden" />
+        </label>
+        <button onClick={() => loadLevel(createBlankLevel(createLevelId()))} className="control-button px-6 py-3 font-gaming">
+          NEW
+        </button>
+        {isSaved && (
+          <button
+            onClick={handleDelete}
+            className="control-button px-6 py-3 font-gaming border-neon-red text-neon-red hover:bg-neon-red hover:text-dark-bg"
+          >
+            DELETE
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="control-button px-6 py-3 font-gaming border-neon-blue text-neon-blue hover:bg-neon-blue hover:text-dark-bg"
+        >
+          CLOSE
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default React.memo(LevelEditor);
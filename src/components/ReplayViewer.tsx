@@ -0,0 +1,231 @@
+/**
+ * Replay Viewer Component
+ *
+ * Plays a recorded game back on the GameBoard, with play/pause, playback
+ * speed and a tick slider for scrubbing. Frames are rebuilt by the engine
+ * from the replay's seed and recorded turns.
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { BoardSnake, GameData, Replay, ReplayViewerProps, SharedGame } from '../types/game.types';
+import { ReplayKeyframes, getReplayStateAt, recordReplayKeyframe, startReplay, stepReplay } from '../engine/replay';
+import { hasEffect } from '../engine/powerUps';
+import { formatScore } from '../utils/gameHelpers';
+import { useGameLoop } from '../hooks/useGameLoop';
+import { createInterpolation } from '../hooks/useInterpolation';
+import { createShareLink } from '../hooks/useShareLink';
+import GameBoard from './GameBoard';
+
+// Selectable playback speeds
+const SPEED_OPTIONS = [0.5, 1, 2, 4];
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onClose }) => {
+  const [frame, setFrame] = useState<GameData>(() => startReplay(replay));
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [interpolation] = useState(createInterpolation);
+  const [sharedLink, setSharedLink] = useState<{label: string, url: string, copied: boolean} | null>(null);
+
+  const isFinished = frame.gameState !== 'PLAYING';
+
+  // States saved as the replay plays, so seeking back doesn't replay from the start
+  const keyframesRef = useRef<{ replay: Replay; keyframes: ReplayKeyframes }>({ replay, keyframes: new Map() });
+  const getKeyframes = useCallback((): ReplayKeyframes => {
+    if (keyframesRef.current.replay !== replay) {
+      keyframesRef.current = { replay, keyframes: new Map() };
+    }
+    return keyframesRef.current.keyframes;
+  }, [replay]);
+
+  // Advance the replay by one step
+  const step = useCallback(() => {
+    setFrame(prev => {
+      const next = stepReplay(prev, replay);
+      recordReplayKeyframe(getKeyframes(), next);
+      return next;
+    });
+  }, [replay, getKeyframes]);
+
+  useGameLoop({
+    enabled: isPlaying && !isFinished,
+    stepMs: frame.gameSpeed / speed,
+    onStep: step,
+    onRender: interpolation.set,
+  });
+
+  // Heads sit in their cells while paused or finished
+  useEffect(() => {
+    if (!isPlaying || isFinished) interpolation.set(1);
+  }, [isPlaying, isFinished, interpolation]);
+
+  // Jump to a tick; scrubbing pauses playback
+  const seek = useCallback((tick: number) => {
+    setIsPlaying(false);
+    setFrame(prev => getReplayStateAt(replay, Math.min(Math.max(tick, 0), replay.ticks), prev, getKeyframes()));
+  }, [replay, getKeyframes]);
+
+  // Play from the start again once the replay has finished
+  const togglePlay = useCallback(() => {
+    if (isFinished) {
+      setFrame(startReplay(replay));
+      setIsPlaying(true);
+    } else {
+      setIsPlaying(prev => !prev);
+    }
+  }, [isFinished, replay]);
+
+  // Copy a link to this replay, or to a challenge on the same seed; the link
+  // is shown instead when the clipboard isn't available
+  const share = useCallback((shared: SharedGame) => {
+    const url = createShareLink(shared);
+    const label = shared.kind === 'REPLAY' ? 'REPLAY LINK' : 'CHALLENGE LINK';
+    setSharedLink({ label, url, copied: false });
+    navigator.clipboard?.writeText(url)
+      .then(() => setSharedLink({ label, url, copied: true }))
+      .catch(() => {});
+  }, []);
+
+  // Space plays/pauses, arrows step one tick, Escape closes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      switch (e.key) {
+        case ' ':
+          e.preventDefault();
+          togglePlay();
+          break;
+        case 'ArrowLeft':
+          e.preventDefault();
+          seek(frame.tickCount - 1);
+          break;
+        case 'ArrowRight':
+          e.preventDefault();
+          seek(frame.tickCount + 1);
+          break;
+        case 'Escape':
+          onClose();
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [togglePlay, seek, frame.tickCount, onClose]);
+
+  // Snakes drawn on the board, in their players' colours
+  const boardSnakes = useMemo<BoardSnake[]>(() => frame.players.map(player => ({
+    snake: player.snake,
+    style: player.style,
+    ghost: hasEffect(player.activeEffects, 'GHOST'),
+    eliminated: !player.alive && frame.players.length > 1,
+  })), [frame.players]);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto mb-6 font-mono text-sm">
+      {/* Title */}
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-2 mb-4">
+        <h2 className="font-gaming font-bold text-neon-blue text-xl">REPLAY</h2>
+        <div className="text-gray-400">
+          {replay.map.name} • {replay.setup.topology === 'WRAP' ? 'WRAP' : 'CLASSIC'} • SEED{' '}
+          <span className="text-neon-blue select-all">{replay.seed}</span>
+        </div>
+      </div>
+
+      {/* Scores */}
+      <div className="flex flex-wrap justify-center gap-4 mb-2">
+        {frame.players.map(player => (
+          <span key={player.id} style={{color: player.style.color}} className={player.alive ? '' : 'opacity-50'}>
+            {player.bot ? '🤖 ' : ''}{player.name}: {formatScore(player.score)}
+          </span>
+        ))}
+      </div>
+
+      {/* Board */}
+      <div className="flex justify-center mb-4">
+        <GameBoard
+          snakes={boardSnakes}
+          foods={frame.foods}
+          powerUps={frame.powerUps}
+          boardWidth={frame.map.width}
+          boardHeight={frame.map.height}
+          walls={frame.map.walls}
+          topology={frame.setup.topology}
+          interpolation={interpolation}
+          isPlaying={isPlaying && !isFinished}
+        />
+      </div>
+
+      {/* Tick Slider */}
+      <div className="flex items-center gap-4 mb-4">
+        <span className="text-gray-400 w-28">TICK {frame.tickCount}/{replay.ticks}</span>
+        <input
+          type="range"
+          min={0}
+          max={replay.ticks}
+          value={frame.tickCount}
+          onChange={(e) => seek(Number(e.target.value))}
+          aria-label="Replay position"
+          className="flex-1 accent-green-400"
+        />
+      </div>
+
+      {/* Playback Controls */}
+      <div className="flex flex-wrap justify-center items-center gap-2">
+        <button onClick={togglePlay} className="control-button px-6 py-3 font-gaming">
+          {isFinished ? 'RESTART' : isPlaying ? 'PAUSE' : 'PLAY'}
+        </button>
+        <span className="text-gray-400 ml-2">SPEED</span>
+        {SPEED_OPTIONS.map(option => (
+          <button
+            key={option}
+            onClick={() => setSpeed(option)}
+            className={`rounded-lg px-3 py-2 border ${
+              speed === option ? 'border-neon-green text-neon-green' : 'border-dark-border text-gray-400'
+            }`}
+            aria-pressed={speed === option}
+          >
+            {option}×
+          </button>
+        ))}
+        <button
+          onClick={onClose}
+          className="control-button px-6 py-3 font-gaming border-neon-blue text-neon-blue hover:bg-neon-blue hover:text-dark-bg"
+        >
+          CLOSE
+        </button>
+      </div>
+
+      {/* Sharing */}
+      <div className="flex flex-wrap justify-center gap-2 mt-4">
+        <button
+          onClick={() => share({ kind: 'REPLAY', replay })}
+          className="rounded-lg px-3 py-2 border border-neon-blue text-neon-blue"
+        >
+          🔗 SHARE REPLAY
+        </button>
+        <button
+          onClick={() => share({ kind: 'CHALLENGE', seed: replay.seed, setup: replay.setup, map: replay.map, config: replay.config })}
+          className="rounded-lg px-3 py-2 border border-neon-blue text-neon-blue"
+        >
+          🎯 SHARE CHALLENGE
+        </button>
+      </div>
+      {sharedLink && (
+        <div className="mt-2 text-center">
+          <div className="text-xs text-gray-400 mb-1">
+            {sharedLink.copied ? `${sharedLink.label} COPIED` : `COPY THIS ${sharedLink.label}:`}
+          </div>
+          <input
+            type="text"
+            readOnly
+            value={sharedLink.url}
+            onFocus={(e) => e.target.select()}
+            aria-label={sharedLink.label}
+            className="w-full bg-dark-panel border border-dark-border rounded-lg px-3 py-2 text-gray-300"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default React.memo(ReplayViewer);
@@ -6,14 +6,22 @@
  */
 
 import React, { useEffect, useState } from 'react';
-import { ScoreDisplayProps } from '../types/game.types';
-import { formatScore } from '../utils/gameHelpers';
+import { ScoreDisplayProps, POWER_UP_TYPES } from '../types/game.types';
+import { formatScore, formatTime } from '../utils/gameHelpers';
+
+// The time-attack clock turns red with this little time left
+const LOW_TIME_MS = 10000;
 
 const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
   score,
   bestScore,
   level,
+  levelUpScore,
   gameState,
+  seed,
+  players,
+  raceDelta,
+  timeLeft,
 }) => {
   const [displayScore, setDisplayScore] = useState(score);
   const [isAnimating, setIsAnimating] = useState(false);
@@ -39,6 +47,8 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
         return { text: 'PLAYING', color: 'text-neon-green' };
       case 'PAUSED':
         return { text: 'PAUSED', color: 'text-yellow-400' };
+      case 'STAGE_COMPLETE':
+        return { text: 'STAGE CLEAR', color: 'text-neon-green' };
       case 'GAME_OVER':
         return { text: 'GAME OVER', color: 'text-neon-red' };
       default:
@@ -47,6 +57,7 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
   };
 
   const gameStatus = getGameStatus();
+  const hasOpponents = players.length > 1;
 
   return (
     <div className="w-full max-w-md mx-auto mb-6">
@@ -57,30 +68,80 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
         </div>
       </div>
 
+      {/* Player Scores (versus and bots) */}
+      {hasOpponents && (
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          {players.map(player => {
+            const { style } = player;
+            return (
+              <div
+                key={player.id}
+                className={`rounded-lg p-4 text-center ${player.alive ? '' : 'opacity-50'}`}
+                style={{background: 'linear-gradient(145deg, #1a1a1a 0%, #2a2a2a 100%)', border: `1px solid ${style.color}`}}
+              >
+                <div className="text-xs font-mono mb-1" style={{color: style.color}}>
+                  {player.bot ? '🤖 ' : ''}{player.name}{player.alive ? '' : ' ✖'}
+                </div>
+                <div className="font-black" style={{fontFamily: "'Orbitron', 'JetBrains Mono', monospace", color: style.color, fontSize: '2.25rem', fontWeight: '900'}}>
+                  {formatScore(player.score)}
+                </div>
+                <div className="text-xs text-gray-400 font-mono">LENGTH {player.snake.segments.length}</div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Score and Stats Row */}
-      <div className="grid grid-cols-2 gap-4 mb-4">
-        {/* Current Score */}
-        <div className="rounded-lg p-4 text-center" style={{background: 'linear-gradient(145deg, #1a1a1a 0%, #2a2a2a 100%)', border: '1px solid #333333'}}>
-          <div className="text-xs text-gray-400 font-mono mb-1">SCORE</div>
-          <div 
-            className={`score-text transition-all duration-300 ${
-              isAnimating ? 'scale-110' : 'scale-100'
-            }`}
-          >
-            {formatScore(displayScore)}
+      {!hasOpponents && (
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          {/* Current Score */}
+          <div className="rounded-lg p-4 text-center" style={{background: 'linear-gradient(145deg, #1a1a1a 0%, #2a2a2a 100%)', border: '1px solid #333333'}}>
+            <div className="text-xs text-gray-400 font-mono mb-1">SCORE</div>
+            <div 
+              className={`score-text transition-all duration-300 ${
+                isAnimating ? 'scale-110' : 'scale-100'
+              }`}
+            >
+              {formatScore(displayScore)}
+            </div>
           </div>
-        </div>
 
-        {/* Best Score */}
-        <div className="rounded-lg p-4 text-center" style={{background: 'linear-gradient(145deg, #1a1a1a 0%, #2a2a2a 100%)', border: '1px solid #333333'}}>
-          <div className="text-xs text-gray-400 font-mono mb-1 flex items-center justify-center gap-1">
-            🏆 BEST
+          {/* Best Score */}
+          <div className="rounded-lg p-4 text-center" style={{background: 'linear-gradient(145deg, #1a1a1a 0%, #2a2a2a 100%)', border: '1px solid #333333'}}>
+            <div className="text-xs text-gray-400 font-mono mb-1 flex items-center justify-center gap-1">
+              🏆 BEST
+            </div>
+            <div className="font-black" style={{fontFamily: "'Orbitron', 'JetBrains Mono', monospace", color: '#00bfff', fontSize: '2.25rem', fontWeight: '900'}}>
+              {formatScore(bestScore)}
+            </div>
           </div>
-          <div className="font-black" style={{fontFamily: "'Orbitron', 'JetBrains Mono', monospace", color: '#00bfff', fontSize: '2.25rem', fontWeight: '900'}}>
-            {formatScore(bestScore)}
+        </div>
+      )}
+
+      {/* Time-Attack Clock */}
+      {timeLeft !== null && (
+        <div className="rounded-lg p-2 mb-4 text-center" style={{background: 'linear-gradient(145deg, #1a1a1a 0%, #2a2a2a 100%)', border: '1px solid #333333'}}>
+          <div className="text-xs text-gray-400 font-mono mb-1">⏱ TIME LEFT</div>
+          <div
+            className={`font-black ${timeLeft <= LOW_TIME_MS && gameState === 'PLAYING' ? 'animate-pulse' : ''}`}
+            style={{fontFamily: "'Orbitron', 'JetBrains Mono', monospace", color: timeLeft <= LOW_TIME_MS ? '#ff0000' : '#facc15', fontSize: '1.875rem', fontWeight: '900'}}
+            role="timer"
+          >
+            {formatTime(Math.ceil(timeLeft / 1000))}
           </div>
         </div>
-      </div>
+      )}
+
+      {/* Ghost Race */}
+      {raceDelta !== undefined && (
+        <div className="rounded-lg p-2 mb-4 text-center font-mono text-sm" style={{background: 'linear-gradient(145deg, #1a1a1a 0%, #2a2a2a 100%)', border: '1px solid #333333'}}>
+          <span className="text-gray-400">👻 VS BEST </span>
+          <span className="font-bold" style={{color: raceDelta > 0 ? '#00ff00' : raceDelta < 0 ? '#ff0000' : '#00bfff'}}>
+            {raceDelta > 0 ? `+${formatScore(raceDelta)} AHEAD` : raceDelta < 0 ? `-${formatScore(-raceDelta)} BEHIND` : 'EVEN'}
+          </span>
+        </div>
+      )}
 
       {/* Level and Progress */}
       <div className="rounded-lg p-4" style={{background: 'linear-gradient(145deg, #1a1a1a 0%, #2a2a2a 100%)', border: '1px solid #333333'}}>
@@ -97,26 +158,59 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
             className="h-2 rounded-full transition-all duration-500"
             style={{
               background: 'linear-gradient(to right, #00ff00, #00bfff)',
-              width: `${Math.min((score % 50) / 50 * 100, 100)}%`
+              width: `${Math.min((score % levelUpScore) / levelUpScore * 100, 100)}%`
             }}
           />
         </div>
         
         <div className="text-xs text-gray-500 font-mono mt-1 text-center">
-          Next level: {Math.ceil(score / 50) * 50 - score} points
+          Next level: {Math.ceil(score / levelUpScore) * levelUpScore - score} points
         </div>
       </div>
 
+      {/* Active Power-Ups */}
+      {players.some(player => player.activeEffects.length > 0) && (
+        <div className="mt-4 space-y-2">
+          {players.flatMap(player => player.activeEffects.map(effect => {
+            const type = POWER_UP_TYPES[effect.kind];
+            return (
+              <div key={`${player.id}-${effect.kind}`} className="flex items-center gap-2 text-xs font-mono">
+                {hasOpponents && <span style={{color: player.style.color}}>{player.bot ? `B${player.id}` : `P${player.id + 1}`}</span>}
+                <span className="w-28 text-left" style={{color: type.color}}>{type.icon} {type.name.toUpperCase()}</span>
+                <div className="flex-1 rounded-full h-2" style={{backgroundColor: '#333333'}}>
+                  <div
+                    className="h-2 rounded-full"
+                    style={{backgroundColor: type.color, width: `${(effect.ticksLeft / effect.duration) * 100}%`}}
+                  />
+                </div>
+              </div>
+            );
+          }))}
+        </div>
+      )}
+
       {/* Snake Length Indicator */}
-      <div className="mt-4 text-center">
-        <div className="text-xs text-gray-400 font-mono mb-1">SNAKE LENGTH</div>
-        <div className="font-bold text-lg" style={{fontFamily: "'Orbitron', 'JetBrains Mono', monospace", color: '#00ff00'}}>
-          {Math.floor(score / 10) + 3}
+      {!hasOpponents && (
+        <div className="mt-4 text-center">
+          <div className="text-xs text-gray-400 font-mono mb-1">SNAKE LENGTH</div>
+          <div className="font-bold text-lg" style={{fontFamily: "'Orbitron', 'JetBrains Mono', monospace", color: '#00ff00'}}>
+            {players[0].snake.segments.length}
+          </div>
         </div>
-      </div>
+      )}
+
+      {/* Game Seed */}
+      {gameState !== 'READY' && (
+        <div className="mt-4 text-center">
+          <div className="text-xs text-gray-400 font-mono mb-1">SEED</div>
+          <div className="font-mono text-sm select-all" style={{color: '#00bfff'}}>
+            {seed}
+          </div>
+        </div>
+      )}
 
       {/* Achievement Notifications */}
-      {score > 0 && score % 50 === 0 && (
+      {score > 0 && score % levelUpScore === 0 && (
         <div className="mt-4 animate-bounce">
           <div className="px-4 py-2 rounded-lg text-center font-bold" style={{backgroundColor: '#00ff00', color: '#0a0a0a', fontFamily: "'Orbitron', 'JetBrains Mono', monospace"}}>
             🎉 LEVEL UP! 🎉
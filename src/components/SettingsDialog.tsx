@@ -0,0 +1,188 @@
+/**
+ * Settings Dialog Component
+ *
+ * Edits the saved game settings. Changes apply as soon as they're made;
+ * a new difficulty takes over from the next game started.
+ */
+
+import React, { useEffect } from 'react';
+import { AudioVolumes, BoardRenderer, GameSettings, SettingsDialogProps } from '../types/game.types';
+import DifficultyPicker from './DifficultyPicker';
+
+type ToggleSetting = 'soundEnabled' | 'musicEnabled' | 'showGrid' | 'showAnimations';
+
+// On/off settings and their labels
+const TOGGLE_OPTIONS: { key: ToggleSetting; label: string }[] = [
+  { key: 'soundEnabled', label: 'SOUND' },
+  { key: 'musicEnabled', label: 'MUSIC' },
+  { key: 'showGrid', label: 'GRID' },
+  { key: 'showAnimations', label: 'ANIMATIONS' },
+];
+
+// Volume sliders: everything, then each category of sound
+const VOLUME_OPTIONS: { key: keyof AudioVolumes; label: string }[] = [
+  { key: 'master', label: 'MASTER' },
+  { key: 'effects', label: 'GAME' },
+  { key: 'interface', label: 'MENUS' },
+  { key: 'music', label: 'MUSIC' },
+];
+
+// Selectable colour themes
+const THEME_OPTIONS: { value: GameSettings['theme']; label: string }[] = [
+  { value: 'dark', label: 'DARK' },
+  { value: 'light', label: 'LIGHT' },
+];
+
+// Selectable board renderers
+const RENDERER_OPTIONS: { value: BoardRenderer; label: string; title: string }[] = [
+  { value: 'dom', label: 'DOM', title: 'One element per cell' },
+  { value: 'canvas', label: 'CANVAS', title: 'Faster on large boards' },
+];
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({
+  isOpen,
+  settings,
+  onSettingChange,
+  onReset,
+  onClose,
+}) => {
+  // Escape closes the dialog
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="game-over-overlay" onClick={onClose}>
+      <div
+        className="game-over-modal settings-modal w-full"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-title"
+      >
+        {/* Title */}
+        <div className="mb-6">
+          <h2 id="settings-title" className="font-gaming font-black text-4xl text-neon-blue mb-2">
+            SETTINGS
+          </h2>
+          <div className="w-full h-1 bg-gradient-to-r from-neon-blue to-neon-green rounded-full"></div>
+        </div>
+
+        {/* On/Off Settings */}
+        {TOGGLE_OPTIONS.map(option => (
+          <div key={option.key} className="flex items-center gap-2 mb-4 font-mono text-sm">
+            <span className="w-28 text-left text-gray-400">{option.label}</span>
+            {[true, false].map(value => (
+              <button
+                key={String(value)}
+                onClick={() => onSettingChange(option.key, value)}
+                className={`flex-1 rounded-lg px-3 py-2 border ${
+                  settings[option.key] === value
+                    ? 'border-neon-green text-neon-green'
+                    : 'border-dark-border text-gray-400'
+                }`}
+                aria-pressed={settings[option.key] === value}
+              >
+                {value ? 'ON' : 'OFF'}
+              </button>
+            ))}
+          </div>
+        ))}
+
+        {/* Volume */}
+        <div className="bg-dark-panel border border-dark-border rounded-lg p-4 mb-4 space-y-2 font-mono text-xs">
+          {VOLUME_OPTIONS.map(option => (
+            <div key={option.key} className="flex items-center gap-2">
+              <label htmlFor={`volume-${option.key}`} className="w-24 text-left text-gray-400">
+                {option.label} VOL
+              </label>
+              <input
+                id={`volume-${option.key}`}
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={settings.volume[option.key]}
+                onChange={(e) => onSettingChange('volume', { ...settings.volume, [option.key]: Number(e.target.value) })}
+                disabled={!settings.soundEnabled}
+                className="flex-1 accent-neon-green disabled:opacity-30"
+              />
+              <span className="w-10 text-right text-neon-green">{settings.volume[option.key]}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Theme */}
+        <div className="flex items-center gap-2 mb-4 font-mono text-sm">
+          <span className="w-28 text-left text-gray-400">THEME</span>
+          {THEME_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onSettingChange('theme', option.value)}
+              className={`flex-1 rounded-lg px-3 py-2 border ${
+                settings.theme === option.value
+                  ? 'border-neon-green text-neon-green'
+                  : 'border-dark-border text-gray-400'
+              }`}
+              aria-pressed={settings.theme === option.value}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Board Renderer */}
+        <div className="flex items-center gap-2 mb-4 font-mono text-sm">
+          <span className="w-28 text-left text-gray-400">RENDERER</span>
+          {RENDERER_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onSettingChange('renderer', option.value)}
+              className={`flex-1 rounded-lg px-3 py-2 border ${
+                settings.renderer === option.value
+                  ? 'border-neon-green text-neon-green'
+                  : 'border-dark-border text-gray-400'
+              }`}
+              aria-pressed={settings.renderer === option.value}
+              title={option.title}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Difficulty */}
+        <DifficultyPicker
+          difficulty={settings.difficulty}
+          customConfig={settings.customConfig}
+          onDifficultyChange={(difficulty) => onSettingChange('difficulty', difficulty)}
+          onCustomConfigChange={(config) => onSettingChange('customConfig', config)}
+        />
+
+        {/* Action Buttons */}
+        <div className="flex flex-col sm:flex-row gap-4 mt-6">
+          <button
+            onClick={onReset}
+            className="control-button flex-1 py-4 text-lg font-gaming border-neon-red text-neon-red hover:bg-neon-red hover:text-dark-bg"
+          >
+            RESET DEFAULTS
+          </button>
+          <button onClick={onClose} className="control-button flex-1 py-4 text-lg font-gaming">
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default React.memo(SettingsDialog);
@@ -0,0 +1,95 @@
+/**
+ * Stage Complete Modal Component
+ *
+ * Shown when a campaign stage's goal is reached, with the clear's score and
+ * time and the way on to the next stage.
+ */
+
+import React, { useEffect } from 'react';
+import { StageCompleteModalProps } from '../types/game.types';
+import { describeGoal } from '../engine/campaign';
+import { formatScore, formatTime } from '../utils/gameHelpers';
+
+const StageCompleteModal: React.FC<StageCompleteModalProps> = ({
+  isOpen,
+  stage,
+  stageNumber,
+  score,
+  time,
+  hasNextStage,
+  onNextStage,
+  onRetry,
+  onStageSelect,
+}) => {
+  // Escape goes back to the stage list
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onStageSelect();
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onStageSelect]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="game-over-overlay" onClick={onStageSelect}>
+      <div className="game-over-modal" onClick={(e) => e.stopPropagation()}>
+        {/* Title */}
+        <div className="mb-6">
+          <h2 className="font-gaming font-black text-4xl text-neon-green mb-2">
+            STAGE {stageNumber} CLEAR!
+          </h2>
+          <div className="text-gray-400 font-mono text-sm mb-2">
+            {stage.map.name} • {describeGoal(stage.goal)}
+          </div>
+          <div className="w-full h-1 bg-gradient-to-r from-neon-green to-neon-blue rounded-full"></div>
+        </div>
+
+        {/* Result */}
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <div className="bg-dark-panel border border-dark-border rounded-lg p-3 text-center">
+            <div className="text-xs text-gray-400 font-mono mb-1">SCORE</div>
+            <div className="font-gaming font-bold text-xl text-neon-green">{formatScore(score)}</div>
+          </div>
+          <div className="bg-dark-panel border border-dark-border rounded-lg p-3 text-center">
+            <div className="text-xs text-gray-400 font-mono mb-1">TIME</div>
+            <div className="font-gaming font-bold text-xl text-neon-blue">{formatTime(Math.ceil(time / 1000))}</div>
+          </div>
+        </div>
+
+        {!hasNextStage && (
+          <div className="mb-6 bg-gradient-to-r from-neon-blue to-neon-green text-dark-bg px-4 py-3 rounded-lg text-center font-gaming font-bold text-lg">
+            🏆 CAMPAIGN COMPLETE! 🏆
+          </div>
+        )}
+
+        {/* Action Buttons */}
+        <div className="flex flex-col sm:flex-row gap-4">
+          {hasNextStage && (
+            <button
+              onClick={onNextStage}
+              className="control-button flex-1 py-4 text-lg font-gaming bg-neon-green text-dark-bg hover:bg-green-400"
+            >
+              NEXT STAGE
+            </button>
+          )}
+          <button onClick={onRetry} className="control-button flex-1 py-4 text-lg font-gaming">
+            RETRY
+          </button>
+          <button
+            onClick={onStageSelect}
+            className="control-button flex-1 py-4 text-lg font-gaming border-neon-blue text-neon-blue hover:bg-neon-blue hover:text-dark-bg"
+          >
+            STAGES
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default React.memo(StageCompleteModal);
@@ -0,0 +1,66 @@
+/**
+ * Stage Select Component
+ *
+ * Lists the campaign stages in order with their goals and best results.
+ * Stages stay locked until the one before them has been cleared.
+ */
+
+import React from 'react';
+import { StageSelectProps } from '../types/game.types';
+import { describeGoal, isStageUnlocked } from '../engine/campaign';
+import { formatScore, formatTime } from '../utils/gameHelpers';
+
+const StageSelect: React.FC<StageSelectProps> = ({ stages, results, onPlay, onClose }) => {
+  const clearedCount = stages.filter(stage => stage.id in results).length;
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mb-6 font-mono text-sm">
+      <h2 className="font-gaming font-bold text-neon-blue text-xl text-center mb-1">CAMPAIGN</h2>
+      <div className="text-center text-gray-400 mb-4">{clearedCount}/{stages.length} STAGES CLEARED</div>
+
+      <div className="space-y-2 mb-4">
+        {stages.map((stage, index) => {
+          const unlocked = isStageUnlocked(index, results);
+          const result = results[stage.id];
+          return (
+            <div
+              key={stage.id}
+              className={`flex items-center gap-4 bg-dark-panel border rounded-lg px-4 py-2 ${
+                result ? 'border-neon-green' : 'border-dark-border'
+              } ${unlocked ? '' : 'opacity-50'}`}
+            >
+              <div className="font-gaming font-bold text-2xl text-neon-blue w-8 text-center">{index + 1}</div>
+              <div className="flex-1">
+                <div className="text-neon-green font-gaming font-bold">
+                  {stage.map.name}{result ? ' ✔' : ''}
+                </div>
+                <div className="text-xs text-gray-400">
+                  {describeGoal(stage.goal)} • {stage.map.width}x{stage.map.height}
+                  {result && ` • Best ${formatScore(result.bestScore)} • Fastest ${formatTime(Math.ceil(result.bestTime / 1000))}`}
+                </div>
+              </div>
+              <button
+                onClick={() => onPlay(stage)}
+                className="rounded-lg px-3 py-2 border border-neon-green text-neon-green disabled:opacity-30"
+                disabled={!unlocked}
+              >
+                {unlocked ? '▶ PLAY' : '🔒 LOCKED'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-center">
+        <button
+          onClick={onClose}
+          className="control-button px-6 py-3 font-gaming border-neon-blue text-neon-blue hover:bg-neon-blue hover:text-dark-bg"
+        >
+          CLOSE
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default React.memo(StageSelect);
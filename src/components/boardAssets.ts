@@ -0,0 +1,35 @@
+/**
+ * Board Assets
+ *
+ * Sprites and timings shared by the DOM and canvas game boards.
+ */
+
+import { FoodKind, SegmentShape } from '../types/game.types';
+import FrogIcon from '../assets/frog.svg';
+import GoldenFrogIcon from '../assets/golden-frog.svg';
+import ShrinkBerryIcon from '../assets/shrink-berry.svg';
+import PoisonMushroomIcon from '../assets/poison-mushroom.svg';
+import SnakeHeadIcon from '../assets/snake-head.svg';
+import SnakeBodyIcon from '../assets/snake-body.svg';
+import SnakeCornerIcon from '../assets/snake-corner.svg';
+import SnakeTailIcon from '../assets/snake-tail.svg';
+
+export { FrogIcon };
+
+// Snake segments, drawn upright and joining the bottom edge of the cell
+export const SEGMENT_ICONS: Record<SegmentShape, string> = {
+  HEAD: SnakeHeadIcon,
+  STRAIGHT: SnakeBodyIcon,
+  CORNER: SnakeCornerIcon,
+  TAIL: SnakeTailIcon,
+};
+
+export const FOOD_ICONS: Record<FoodKind, string> = {
+  NORMAL: FrogIcon,
+  BONUS: GoldenFrogIcon,
+  SHRINK: ShrinkBerryIcon,
+  POISON: PoisonMushroomIcon,
+};
+
+// Food with this many ticks left blinks before it disappears
+export const EXPIRY_WARNING_TICKS = 10;
@@ -0,0 +1,82 @@
+/**
+ * Bots
+ *
+ * Move choice for computer-controlled snakes. Bots look at the same
+ * GameData as everyone else and steer through CHANGE_DIRECTION, so they
+ * play by exactly the same engine rules as human players. Each
+ * BotDifficulty adds a layer of caution: greedy bots head straight for the
+ * nearest food, safe-path bots follow the shortest free path to it (BFS),
+ * and survival bots only take paths that leave them room to keep moving.
+ */
+
+import { Direction, GameData, Player } from '../types/game.types';
+import { calculateDistance, getLastQueuedDirection, getOppositeDirection } from '../utils/gameHelpers';
+import {
+  GridMove,
+  OccupancyGrid,
+  cellIndex,
+  countReachableCells,
+  createOccupancyGrid,
+  findPathDirection,
+  getFreeNeighbours
+} from './pathfinding';
+
+// The move leading into the most open space
+const findRoomiestMove = (moves: GridMove[], grid: OccupancyGrid): GridMove => {
+  return moves.reduce((best, move) =>
+    countReachableCells(move.position, grid) > countReachableCells(best.position, grid) ? move : best
+  );
+};
+
+// Cells another snake's head could move into this tick
+const getContestedCells = (state: GameData, player: Player, grid: OccupancyGrid): Set<number> => {
+  const contested = new Set<number>();
+  state.players
+    .filter(other => other.alive && other.id !== player.id)
+    .forEach(other => {
+      getFreeNeighbours(other.snake.segments[0], grid).forEach(move => contested.add(cellIndex(move.position, grid.map)));
+    });
+  return contested;
+};
+
+/**
+ * Pick the direction a bot turns to on this tick. Returns its current
+ * heading when every move is fatal.
+ */
+export const chooseBotDirection = (state: GameData, player: Player): Direction => {
+  // Cautious bots steer around poison
+  const grid = createOccupancyGrid(state, player.bot !== 'GREEDY');
+  const { snake } = player;
+  const heading = getLastQueuedDirection(snake);
+
+  const moves = getFreeNeighbours(snake.segments[0], grid)
+    .filter(move => move.direction !== getOppositeDirection(heading));
+  if (moves.length === 0) return heading;
+
+  const targets = state.foods.filter(food => food.kind !== 'POISON').map(food => food.position);
+
+  switch (player.bot) {
+    case 'GREEDY': {
+      // Step toward the closest food as the crow flies, if there is any
+      if (targets.length === 0) return moves[0].direction;
+      const distanceToFood = (move: GridMove) => Math.min(
+        ...targets.map(target => calculateDistance(move.position, target, state.map, state.setup.topology))
+      );
+      return moves.reduce((best, move) => (distanceToFood(move) < distanceToFood(best) ? move : best)).direction;
+    }
+
+    case 'SURVIVAL': {
+      // Keep out of reach of other heads and away from pockets too small to fit in
+      const contested = getContestedCells(state, player, grid);
+      const uncontested = moves.filter(move => !contested.has(cellIndex(move.position, grid.map)));
+      const candidates = uncontested.length > 0 ? uncontested : moves;
+      const length = snake.segments.length;
+      const roomy = candidates.filter(move => countReachableCells(move.position, grid, length) >= length);
+
+      return findPathDirection(roomy, targets, grid) ?? findRoomiestMove(candidates, grid).direction;
+    }
+
+    default:
+      return findPathDirection(moves, targets, grid) ?? findRoomiestMove(moves, grid).direction;
+  }
+};
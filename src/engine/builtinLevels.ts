@@ -0,0 +1,164 @@
+/**
+ * Built-in Maps
+ *
+ * Obstacle maps shipped with the game, written in the plain-text level
+ * format (see levelFormat.ts). The open map has no walls and uses the
+ * configured board size.
+ */
+
+import { GameConfig, LevelDefinition, OPEN_MAP_ID } from '../types/game.types';
+import { getBoardDimensions } from '../utils/gameHelpers';
+import { parseLevel } from './levelFormat';
+
+// Level files of the built-in obstacle maps, keyed by map id
+const BUILTIN_LEVEL_FILES: Record<string, string> = {
+  box: `
+name: Box
+####################
+#..................#
+#..................#
+#..................#
+#..................#
+#..................#
+#..................#
+#..................#
+#..................#
+#..................#
+#.........>........#
+#..................#
+#..................#
+#..................#
+#..................#
+#..................#
+#..................#
+#..................#
+#..................#
+####################
+`,
+  pillars: `
+name: Pillars
+....................
+....................
+....................
+....................
+....##........##....
+....##........##....
+....................
+....................
+....................
+....................
+..........>.........
+....................
+....................
+....................
+....##........##....
+....##........##....
+....................
+....................
+....................
+....................
+`,
+  cross: `
+name: Cross
+####################
+#..................#
+#..................#
+#..................#
+#........#.........#
+#........#.........#
+#........#.........#
+#........#.........#
+#........#.........#
+#...#####..#####...#
+#..................#
+#........#.........#
+#........#.........#
+#........#.........#
+#....>...#.........#
+#........#.........#
+#..................#
+#..................#
+#..................#
+####################
+`,
+  corridors: `
+name: Corridors
+########################
+#......................#
+#.....>................#
+#......................#
+#....###################
+#......................#
+#......................#
+#......................#
+###################....#
+#......................#
+#......................#
+#......................#
+#....###################
+#......................#
+#......................#
+########################
+`,
+  arena: `
+name: Arena
+heading: UP
+################################
+#..............................#
+#..............................#
+#..............................#
+#..............................#
+#.......################.......#
+#..............................#
+#...#......................#...#
+#...#......................#...#
+#...#...........S..........#...#
+#...#......................#...#
+#..............................#
+#.......################.......#
+#..............................#
+#..............................#
+#..............................#
+#..............................#
+################################
+`,
+};
+
+/**
+ * Create the wall-free map for the configured board size
+ */
+export const createOpenLevel = (config: GameConfig): LevelDefinition => {
+  const board = getBoardDimensions(config);
+  return {
+    id: OPEN_MAP_ID,
+    name: 'Open',
+    ...board,
+    walls: [],
+    foodSpawns: [],
+    start: { x: Math.floor(board.width / 2), y: Math.floor(board.height / 2) },
+    startDirection: 'RIGHT',
+  };
+};
+
+/**
+ * Parse a level file shipped with the game. Shipped files are part of the
+ * source, so a parse error is a bug.
+ */
+export const parseBuiltinLevel = (id: string, text: string): LevelDefinition => {
+  const result = parseLevel(text, id);
+  if (!result.ok) {
+    throw new Error(`Built-in map "${id}" is invalid: ${result.error}`);
+  }
+  return result.value;
+};
+
+export const BUILTIN_LEVELS: LevelDefinition[] = Object.entries(BUILTIN_LEVEL_FILES).map(
+  ([id, text]) => parseBuiltinLevel(id, text)
+);
+
+/**
+ * Get every built-in map, starting with the open board
+ */
+export const getBuiltinMaps = (config: GameConfig): LevelDefinition[] => {
+  return [createOpenLevel(config), ...BUILTIN_LEVELS];
+};
@@ -0,0 +1,236 @@
+/**
+ * Campaign
+ *
+ * Authored stages played one after another. Each stage has its own board
+ * (in the plain-text level format), a fixed speed and a goal; clearing a
+ * stage unlocks the next. Stage games are solo games whose setup names the
+ * stage, so the engine, replays and share links all play them by the same
+ * rules.
+ */
+
+import {
+  CampaignStage,
+  GameConfig,
+  GameData,
+  GameSetup,
+  StageGoal,
+  StageResult,
+  DEFAULT_GAME_SETUP
+} from '../types/game.types';
+import { parseBuiltinLevel } from './builtinLevels';
+
+interface StageFile {
+  id: string;
+  speed: number;
+  goal: StageGoal;
+  level: string;
+}
+
+// Stage files in campaign order
+const STAGE_FILES: StageFile[] = [
+  {
+    id: 'stage-1',
+    speed: 180,
+    goal: { kind: 'FOOD', count: 5 },
+    level: `
+name: First Steps
+################
+#..............#
+#..............#
+#..............#
+#..............#
+#.....>........#
+#..............#
+#..............#
+#..............#
+#..............#
+#..............#
+################
+`,
+  },
+  {
+    id: 'stage-2',
+    speed: 165,
+    goal: { kind: 'LENGTH', length: 10 },
+    level: `
+name: Growing Pains
+################
+#..............#
+#..............#
+#...##....##...#
+#...##....##...#
+#..............#
+#.....>........#
+#..............#
+#...##....##...#
+#...##....##...#
+#..............#
+################
+`,
+  },
+  {
+    id: 'stage-3',
+    speed: 150,
+    goal: { kind: 'SURVIVE', seconds: 40 },
+    level: `
+name: Hold Out
+##################
+#................#
+#................#
+#....########....#
+#................#
+#................#
+#.......>........#
+#................#
+#................#
+#....########....#
+#................#
+#................#
+##################
+`,
+  },
+  {
+    id: 'stage-4',
+    speed: 140,
+    goal: { kind: 'FOOD', count: 12 },
+    level: `
+name: Switchback
+####################
+#..................#
+#..>...............#
+#..................#
+#.......############
+#..................#
+#..................#
+############.......#
+#..................#
+#..................#
+#.......############
+#..................#
+#..................#
+####################
+`,
+  },
+  {
+    id: 'stage-5',
+    speed: 125,
+    goal: { kind: 'LENGTH', length: 18 },
+    level: `
+name: Garden
+....................
+....................
+..*..............*..
+....................
+.......##..##.......
+.......#....#.......
+.........>..........
+.......#....#.......
+.......##..##.......
+....................
+..*..............*..
+....................
+....................
+`,
+  },
+  {
+    id: 'stage-6',
+    speed: 110,
+    goal: { kind: 'SURVIVE', seconds: 60 },
+    level: `
+name: The Gauntlet
+heading: UP
+######################
+#....................#
+#..#....######....#..#
+#..#..............#..#
+#..#..............#..#
+#.........#..#.......#
+#.........#S.#.......#
+#.........#..#.......#
+#..#..............#..#
+#..#..............#..#
+#..#....######....#..#
+#....................#
+######################
+`,
+  },
+];
+
+export const CAMPAIGN_STAGES: CampaignStage[] = STAGE_FILES.map(({ id, speed, goal, level }) => ({
+  id,
+  map: parseBuiltinLevel(id, level),
+  speed,
+  goal,
+}));
+
+/**
+ * Look up a campaign stage by id
+ */
+export const getStage = (stageId: string | undefined): CampaignStage | undefined => {
+  return CAMPAIGN_STAGES.find(stage => stage.id === stageId);
+};
+
+/**
+ * The setup a stage is played with: solo, on the stage's board
+ */
+export const getStageSetup = (stage: CampaignStage): GameSetup => ({
+  ...DEFAULT_GAME_SETUP,
+  mapId: stage.map.id,
+  stageId: stage.id,
+});
+
+/**
+ * The configuration a game is played with: a stage holds its own speed for
+ * the whole stage, other games use the configuration unchanged
+ */
+export const getStageConfig = (config: GameConfig, setup: GameSetup): GameConfig => {
+  const stage = getStage(setup.stageId);
+  if (!stage) return config;
+  return { ...config, INITIAL_SPEED: stage.speed, MAX_SPEED: stage.speed, SPEED_INCREMENT: 0 };
+};
+
+/**
+ * How far a game has come towards a stage goal
+ */
+export const getGoalProgress = (state: GameData, goal: StageGoal): { current: number; target: number } => {
+  switch (goal.kind) {
+    case 'FOOD':
+      return { current: state.foodEaten, target: goal.count };
+    case 'LENGTH':
+      return { current: state.players[0].snake.segments.length, target: goal.length };
+    case 'SURVIVE':
+      return { current: Math.floor(state.timePlayed / 1000), target: goal.seconds };
+  }
+};
+
+/**
+ * Check whether a game has reached its stage goal
+ */
+export const isGoalReached = (state: GameData, goal: StageGoal): boolean => {
+  const { current, target } = getGoalProgress(state, goal);
+  return current >= target;
+};
+
+/**
+ * Describe a stage goal for the player
+ */
+export const describeGoal = (goal: StageGoal): string => {
+  switch (goal.kind) {
+    case 'FOOD':
+      return `Eat ${goal.count} food`;
+    case 'LENGTH':
+      return `Grow to length ${goal.length}`;
+    case 'SURVIVE':
+      return `Survive ${goal.seconds} seconds`;
+  }
+};
+
+/**
+ * Check whether a stage can be played: the first always can, every other
+ * once the stage before it has been cleared
+ */
+export const isStageUnlocked = (stageIndex: number, results: Record<string, StageResult>): boolean => {
+  if (stageIndex === 0) return true;
+  const previous = CAMPAIGN_STAGES[stageIndex - 1];
+  return previous !== undefined && previous.id in results;
+};
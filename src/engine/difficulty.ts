@@ -0,0 +1,95 @@
+/**
+ * Difficulty
+ *
+ * Maps each difficulty to the GameConfig games are played with: the easy,
+ * normal and hard presets, or the player's own values for custom. Also
+ * decides which difficulty a configuration belongs to, so records made
+ * with different rules are kept apart.
+ */
+
+import { Difficulty, GameConfig, DIFFICULTY_PRESETS } from '../types/game.types';
+import { MAX_LEVEL_SIZE, MIN_LEVEL_SIZE } from './levelFormat';
+
+// A configuration value the player can edit for the custom difficulty
+interface CustomConfigField {
+  key: keyof GameConfig;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Selectable difficulties, easiest first
+export const DIFFICULTY_OPTIONS: { value: Difficulty; label: string }[] = [
+  { value: 'easy', label: 'EASY' },
+  { value: 'normal', label: 'NORMAL' },
+  { value: 'hard', label: 'HARD' },
+  { value: 'custom', label: 'CUSTOM' },
+];
+
+// Editable values of the custom difficulty and their allowed ranges
+export const CUSTOM_CONFIG_FIELDS: CustomConfigField[] = [
+  { key: 'INITIAL_SPEED', label: 'START SPEED (ms)', min: 60, max: 500, step: 10 },
+  { key: 'SPEED_INCREMENT', label: 'SPEED-UP PER LEVEL (ms)', min: 0, max: 50, step: 1 },
+  { key: 'MAX_SPEED', label: 'TOP SPEED (ms)', min: 30, max: 500, step: 10 },
+  { key: 'LEVEL_UP_SCORE', label: 'POINTS PER LEVEL', min: 10, max: 500, step: 10 },
+  { key: 'POINTS_PER_FOOD', label: 'POINTS PER FOOD', min: 1, max: 100, step: 1 },
+];
+
+/**
+ * Get the configuration a difficulty plays with
+ */
+export const getDifficultyConfig = (difficulty: Difficulty, customConfig: GameConfig): GameConfig => {
+  return difficulty === 'custom' ? customConfig : DIFFICULTY_PRESETS[difficulty];
+};
+
+/**
+ * Get the difficulty a configuration belongs to: the preset it matches, or custom
+ */
+export const getConfigDifficulty = (config: GameConfig): Difficulty => {
+  const keys = Object.keys(config) as (keyof GameConfig)[];
+  const preset = (Object.keys(DIFFICULTY_PRESETS) as (keyof typeof DIFFICULTY_PRESETS)[]).find(name =>
+    keys.every(key => DIFFICULTY_PRESETS[name][key] === config[key])
+  );
+  return preset ?? 'custom';
+};
+
+// Keep an edited custom value within its allowed range
+const clampConfigValue = (key: keyof GameConfig, value: number): number => {
+  const field = CUSTOM_CONFIG_FIELDS.find(candidate => candidate.key === key);
+  if (!field) return value;
+  if (!Number.isFinite(value)) return field.min;
+  return Math.min(Math.max(Math.round(value), field.min), field.max);
+};
+
+/**
+ * Change one value of a custom configuration, kept within its range. The
+ * top speed is a shorter step than the start speed, so the one edited last
+ * pushes the other along rather than let the game slow down as it levels.
+ */
+export const setCustomConfigValue = (config: GameConfig, key: keyof GameConfig, value: number): GameConfig => {
+  const next = { ...config, [key]: clampConfigValue(key, value) };
+  if (next.MAX_SPEED <= next.INITIAL_SPEED) return next;
+  return key === 'MAX_SPEED'
+    ? { ...next, INITIAL_SPEED: next.MAX_SPEED }
+    : { ...next, MAX_SPEED: next.INITIAL_SPEED };
+};
+
+/**
+ * Check that untrusted input is a playable configuration: board sizes a
+ * level may have, and every editable value within its allowed range
+ */
+export const isValidConfig = (config: unknown): config is GameConfig => {
+  if (typeof config !== 'object' || config === null) return false;
+  const candidate = config as Partial<GameConfig>;
+
+  const isInRange = (value: unknown, min: number, max: number) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+  return (
+    isInRange(candidate.BOARD_WIDTH, MIN_LEVEL_SIZE, MAX_LEVEL_SIZE) &&
+    isInRange(candidate.BOARD_HEIGHT, MIN_LEVEL_SIZE, MAX_LEVEL_SIZE) &&
+    CUSTOM_CONFIG_FIELDS.every(field => isInRange(candidate[field.key], field.min, field.max)) &&
+    (candidate.MAX_SPEED as number) <= (candidate.INITIAL_SPEED as number)
+  );
+};
@@ -0,0 +1,134 @@
+/**
+ * Food Spawning
+ *
+ * Spawn and lifetime rules for the food kinds in FOOD_TYPES. There is always
+ * exactly one normal food on the board; eating it respawns it and gives each
+ * special kind a chance to appear for a limited number of ticks. All draws
+ * come from the engine's seeded random source.
+ */
+
+import {
+  BoardTopology,
+  Food,
+  FoodKind,
+  LevelDefinition,
+  Position,
+  RandomSource,
+  Snake,
+  FOOD_TYPES,
+  MIN_SNAKE_LENGTH
+} from '../types/game.types';
+import {
+  generateFoodPosition,
+  generateRandomPosition,
+  getPositionDelta,
+  isPositionOnSnake,
+  isPositionOnWall
+} from '../utils/gameHelpers';
+
+// Special kinds, in the order their spawn chances are rolled
+const SPECIAL_FOOD_KINDS: FoodKind[] = ['BONUS', 'SHRINK', 'POISON'];
+
+// Random cells tried before a special item gives up on spawning
+const MAX_SPAWN_ATTEMPTS = 100;
+
+/**
+ * Create a food of the given kind with its full lifetime
+ */
+export const createFood = (kind: FoodKind, position: Position): Food => {
+  return { kind, position, ticksLeft: FOOD_TYPES[kind].lifetime };
+};
+
+/**
+ * Create the normal food, avoiding the snakes, walls, other food and any
+ * other occupied cells (such as power-ups). Returns null when the board is
+ * full.
+ */
+export const spawnNormalFood = (
+  snakes: Snake[],
+  map: LevelDefinition,
+  foods: Food[],
+  random: RandomSource,
+  occupied: Position[] = []
+): Food | null => {
+  const [first, ...others] = snakes;
+  const blocked = [
+    ...map.walls,
+    ...occupied,
+    ...foods.map(food => food.position),
+    ...others.flatMap(other => other.segments),
+  ];
+  const position = generateFoodPosition(first, map, random, blocked, map.foodSpawns);
+  return position ? createFood('NORMAL', position) : null;
+};
+
+/**
+ * Find a random free cell for a special item at least `minHeadDistance`
+ * moves from every head, counting moves across the edges of a wrap-around
+ * board. Returns null when no cell is found.
+ */
+export const findFreeCell = (
+  snakes: Snake[],
+  map: LevelDefinition,
+  blocked: Position[],
+  random: RandomSource,
+  minHeadDistance: number = 0,
+  topology: BoardTopology = 'WALLS'
+): Position | null => {
+  const cells = [...map.walls, ...blocked];
+  const isNearHead = (position: Position) => snakes.some(snake => {
+    const { x: dx, y: dy } = getPositionDelta(position, snake.segments[0], map, topology);
+    return Math.abs(dx) + Math.abs(dy) < minHeadDistance;
+  });
+
+  for (let attempt = 0; attempt < MAX_SPAWN_ATTEMPTS; attempt++) {
+    const position = generateRandomPosition(map, random);
+    if (
+      !isNearHead(position) &&
+      !snakes.some(snake => isPositionOnSnake(position, snake)) &&
+      !isPositionOnWall(position, cells)
+    ) {
+      return position;
+    }
+  }
+  return null;
+};
+
+/**
+ * Respawn food after a piece is eaten. Eating normal food brings it back and
+ * rolls each special kind that isn't already on the board.
+ */
+export const spawnFoods = (
+  eatenKind: FoodKind,
+  foods: Food[],
+  snakes: Snake[],
+  map: LevelDefinition,
+  level: number,
+  random: RandomSource,
+  occupied: Position[] = [],
+  topology: BoardTopology = 'WALLS'
+): Food[] => {
+  if (eatenKind !== 'NORMAL') return foods;
+
+  // Nothing respawns once the snakes fill the board
+  const food = spawnNormalFood(snakes, map, foods, random, occupied);
+  const next = food ? [...foods, food] : [...foods];
+
+  SPECIAL_FOOD_KINDS.forEach(kind => {
+    const type = FOOD_TYPES[kind];
+    if (level < type.minLevel || next.some(food => food.kind === kind)) return;
+
+    // Shrink food only appears when there is something to shrink
+    if (type.growth < 0 && snakes.every(snake => snake.segments.length <= MIN_SNAKE_LENGTH)) return;
+
+    if (random() >= type.spawnChance) return;
+
+    const blocked = [...occupied, ...next.map(food => food.position)];
+    const position = findFreeCell(snakes, map, blocked, random, type.minHeadDistance, topology);
+    if (position) {
+      next.push(createFood(kind, position));
+    }
+  });
+
+  return next;
+};
@@ -0,0 +1,434 @@
+/**
+ * Game Engine
+ *
+ * Pure, framework-free implementation of the Snake rules. The engine is a
+ * reducer over GameAction plus a tick() step that advances the game by one
+ * move. Configuration is passed in and randomness comes from the seeded
+ * generator stored in GameData, so the same rules can drive the React UI,
+ * bots, replays, servers and headless tests deterministically.
+ */
+
+import {
+  ActiveEffect,
+  FoodKind,
+  GameAction,
+  GameConfig,
+  GameData,
+  GameSetup,
+  GameState,
+  LevelDefinition,
+  Player,
+  Snake,
+  FOOD_TYPES,
+  DOUBLE_SCORE_MULTIPLIER,
+  MAX_QUEUED_TURNS,
+  TIME_ATTACK_CRASH_PENALTY_MS,
+  TIME_ATTACK_FOOD_BONUS_MS,
+  DEFAULT_GAME_CONFIG,
+  DEFAULT_GAME_SETUP,
+  INITIAL_GAME_DATA
+} from '../types/game.types';
+import {
+  getNextPosition,
+  getNextDirection,
+  getLastQueuedDirection,
+  isValidDirectionChange,
+  checkWallCollision,
+  checkObstacleCollision,
+  checkSelfCollision,
+  positionsEqual,
+  moveSegments,
+  countDownTicks,
+  getNextLevel
+} from '../utils/gameHelpers';
+import { withRandom } from './random';
+import { createOpenLevel } from './builtinLevels';
+import { spawnFoods, spawnNormalFood } from './foods';
+import { activateEffect, getEffectiveGameSpeed, hasEffect, pullFoods, spawnPowerUps } from './powerUps';
+import { createPlayers, getHumanScore, getLivingSnakes, getRespawnSnake, isGameFinished, updatePlayer } from './players';
+import { chooseBotDirection } from './bots';
+import { getStage, getStageConfig, isGoalReached } from './campaign';
+
+// Inputs the engine needs besides the game state itself
+export interface EngineOptions {
+  config: GameConfig;        // Board size, speeds and scoring rules
+}
+
+export const DEFAULT_ENGINE_OPTIONS: EngineOptions = {
+  config: DEFAULT_GAME_CONFIG,
+};
+
+/**
+ * Points for eating a food, doubled while double score runs (costs are never doubled)
+ */
+const getFoodPoints = (kind: FoodKind, effects: ActiveEffect[], config: GameConfig): number => {
+  const points = Math.round(config.POINTS_PER_FOOD * FOOD_TYPES[kind].scoreMultiplier);
+  return points > 0 && hasEffect(effects, 'DOUBLE_SCORE') ? points * DOUBLE_SCORE_MULTIPLIER : points;
+};
+
+// Effects running for any player (slow-motion slows everyone)
+const getAllEffects = (players: Player[]): ActiveEffect[] => {
+  return players.flatMap(player => player.activeEffects);
+};
+
+/**
+ * Create a fresh game in the READY state for the given configuration.
+ * The first food already comes from the seed.
+ */
+export const createInitialGameData = (
+  config: GameConfig,
+  bestScore: number = 0,
+  seed: number = 0,
+  setup: GameSetup = DEFAULT_GAME_SETUP,
+  map: LevelDefinition = createOpenLevel(config)
+): GameData => {
+  const players = createPlayers(map, setup);
+  const { result: food, state: rngState } = withRandom(seed, random =>
+    spawnNormalFood(getLivingSnakes(players), map, [], random)
+  );
+
+  return {
+    ...INITIAL_GAME_DATA,
+    players,
+    foods: food ? [food] : [],
+    bestScore,
+    gameSpeed: config.INITIAL_SPEED,
+    seed,
+    setup,
+    map,
+    rngState,
+    timeLeft: setup.timeLimit ? setup.timeLimit * 1000 : null,
+  };
+};
+
+/**
+ * Apply a single action to the game state
+ */
+export function gameReducer(
+  state: GameData,
+  action: GameAction,
+  options: EngineOptions = DEFAULT_ENGINE_OPTIONS
+): GameData {
+  // Campaign stages run at their own speed
+  const setup = action.type === 'START_GAME' || action.type === 'SETUP_GAME' ? action.payload.setup : state.setup;
+  const config = getStageConfig(options.config, setup);
+
+  switch (action.type) {
+    case 'START_GAME': {
+      if (state.gameState !== 'READY' && state.gameState !== 'STAGE_COMPLETE' && state.gameState !== 'GAME_OVER') return state;
+
+      const { seed, map } = action.payload;
+      return {
+        ...createInitialGameData(config, state.bestScore, seed, setup, map),
+        gameState: 'PLAYING' as GameState,
+      };
+    }
+
+    case 'SETUP_GAME': {
+      if (state.gameState !== 'READY') return state;
+
+      return createInitialGameData(config, state.bestScore, state.seed, setup, action.payload.map);
+    }
+
+    case 'PAUSE_GAME':
+      if (state.gameState !== 'PLAYING') return state;
+      return { ...state, isPaused: true };
+
+    case 'RESUME_GAME':
+      if (state.gameState !== 'PLAYING' || !state.isPaused) return state;
+      return { ...state, isPaused: false };
+
+    case 'RESET_GAME':
+      return createInitialGameData(config, state.bestScore, 0, state.setup, state.map);
+
+    case 'GAME_OVER':
+      return { ...state, gameState: 'GAME_OVER' as GameState, endReason: action.payload };
+
+    case 'COMPLETE_STAGE':
+      return { ...state, gameState: 'STAGE_COMPLETE' as GameState };
+
+    case 'TICK':
+      return tick(state, options);
+
+    case 'ADVANCE_TIMERS': {
+      // Items on the board, running effects and the time-attack clock age by one tick
+      let foods = countDownTicks(state.foods);
+      const powerUps = countDownTicks(state.powerUps);
+      const players = state.players.map(player => ({
+        ...player,
+        activeEffects: countDownTicks(player.activeEffects),
+      }));
+
+      // Magnets pull nearby food toward their snake's head
+      const snakes = getLivingSnakes(players);
+      players.forEach(player => {
+        if (player.alive && hasEffect(player.activeEffects, 'MAGNET')) {
+          foods = pullFoods(foods, player.snake.segments[0], snakes, state.map, powerUps, state.setup.topology);
+        }
+      });
+
+      return {
+        ...state,
+        foods,
+        powerUps,
+        players,
+        gameSpeed: getEffectiveGameSpeed(state.level, getAllEffects(players), config),
+        tickCount: state.tickCount + 1,
+        timePlayed: state.timePlayed + state.gameSpeed,
+        timeLeft: state.timeLeft === null ? null : Math.max(state.timeLeft - state.gameSpeed, 0),
+      };
+    }
+
+    case 'ELIMINATE_PLAYER':
+      return {
+        ...state,
+        players: updatePlayer(state.players, action.payload, player => ({ ...player, alive: false })),
+      };
+
+    case 'RESPAWN_PLAYER': {
+      const items = [...state.foods, ...state.powerUps].map(item => item.position);
+      const snake = getRespawnSnake(state.map, state.players, action.payload, items);
+      if (!snake) return state;
+
+      // The snake comes back at its starting length; its score is kept
+      return {
+        ...state,
+        players: updatePlayer(state.players, action.payload, player => ({
+          ...player,
+          snake,
+          alive: true,
+          activeEffects: [],
+        })),
+      };
+    }
+
+    case 'ADJUST_TIME':
+      if (state.timeLeft === null) return state;
+      return { ...state, timeLeft: Math.max(state.timeLeft + action.payload, 0) };
+
+    case 'MOVE_SNAKE': {
+      const { playerId, newHead, eaten, collected } = action.payload;
+
+      // The eaten food decides how the snake grows or shrinks
+      const players = updatePlayer(state.players, playerId, player => ({
+        ...player,
+        snake: {
+          segments: moveSegments(player.snake.segments, newHead, eaten ? FOOD_TYPES[eaten.kind].growth : 0),
+          direction: getNextDirection(player.snake),
+          directionQueue: player.snake.directionQueue.slice(1),
+        },
+      }));
+
+      return {
+        ...state,
+        players,
+        foods: eaten ? state.foods.filter(food => !positionsEqual(food.position, eaten.position)) : state.foods,
+        powerUps: collected
+          ? state.powerUps.filter(powerUp => !positionsEqual(powerUp.position, collected.position))
+          : state.powerUps,
+        foodEaten: state.foodEaten + (eaten ? 1 : 0),
+      };
+    }
+
+    case 'SPAWN_FOOD': {
+      const snakes = getLivingSnakes(state.players);
+      const powerUpCells = state.powerUps.map(powerUp => powerUp.position);
+
+      const { result, state: rngState } = withRandom(state.rngState, random => {
+        const foods = spawnFoods(action.payload, state.foods, snakes, state.map, state.level, random, powerUpCells, state.setup.topology);
+        const powerUps = action.payload === 'NORMAL'
+          ? spawnPowerUps(state.powerUps, snakes, state.map, foods.map(food => food.position), random, state.setup.topology)
+          : state.powerUps;
+        return { foods, powerUps };
+      });
+
+      return { ...state, ...result, rngState };
+    }
+
+    case 'ACTIVATE_POWER_UP': {
+      const { playerId, kind } = action.payload;
+      const players = updatePlayer(state.players, playerId, player => ({
+        ...player,
+        activeEffects: activateEffect(player.activeEffects, kind),
+      }));
+
+      return {
+        ...state,
+        players,
+        gameSpeed: getEffectiveGameSpeed(state.level, getAllEffects(players), config),
+      };
+    }
+
+    case 'CHANGE_DIRECTION': {
+      if (state.gameState !== 'PLAYING' || state.isPaused) return state;
+
+      const { playerId, direction } = action.payload;
+      const player = state.players.find(candidate => candidate.id === playerId);
+      if (!player || !player.alive) return state;
+
+      // Each buffered turn is validated against the turn queued before it
+      const { snake } = player;
+      const lastDirection = getLastQueuedDirection(snake);
+      if (
+        snake.directionQueue.length >= MAX_QUEUED_TURNS ||
+        direction === lastDirection ||
+        !isValidDirectionChange(lastDirection, direction)
+      ) {
+        return state;
+      }
+
+      // Human turns are logged for the replay; bots make theirs again on playback
+      return {
+        ...state,
+        players: updatePlayer(state.players, playerId, current => ({
+          ...current,
+          snake: { ...snake, directionQueue: [...snake.directionQueue, direction] },
+        })),
+        inputLog: player.bot === null ? [...state.inputLog, [state.tickCount, direction, playerId]] : state.inputLog,
+      };
+    }
+
+    case 'UPDATE_SCORE': {
+      const { playerId, points } = action.payload;
+      const players = updatePlayer(state.players, playerId, player => ({
+        ...player,
+        score: Math.max(player.score + points, 0),
+      }));
+
+      return { ...state, players, score: getHumanScore(players) };
+    }
+
+    case 'LEVEL_UP': {
+      const level = state.level + 1;
+      return {
+        ...state,
+        level,
+        gameSpeed: getEffectiveGameSpeed(level, getAllEffects(state.players), config),
+      };
+    }
+
+    case 'UPDATE_BEST_SCORE':
+      return { ...state, bestScore: action.payload };
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * Advance a running game by one step: age timers, let bots steer, move
+ * every living snake at once, resolve collisions (walls, own body, other
+ * snakes' heads and bodies), eat food (scored by its kind), collect
+ * power-ups and level up. In time attack the game ends when the clock runs
+ * out, and crashed snakes respawn instead, a human crash costing time.
+ * A campaign stage is complete once its goal is reached.
+ * Returns the state unchanged when not playing.
+ */
+export function tick(state: GameData, options: EngineOptions = DEFAULT_ENGINE_OPTIONS): GameData {
+  if (state.gameState !== 'PLAYING' || state.isPaused) return state;
+
+  const config = getStageConfig(options.config, state.setup);
+  let next = gameReducer(state, { type: 'ADVANCE_TIMERS' }, options);
+
+  const isTimeAttack = next.timeLeft !== null;
+  if (next.timeLeft !== null && next.timeLeft <= 0) {
+    return gameReducer(next, { type: 'GAME_OVER', payload: 'TIME_UP' }, options);
+  }
+
+  // Bots turn the same way players do, after magnets have moved the food
+  next.players.filter(player => player.alive && player.bot !== null).forEach(player => {
+    const direction = chooseBotDirection(next, player);
+    next = gameReducer(next, { type: 'CHANGE_DIRECTION', payload: { playerId: player.id, direction } }, options);
+  });
+
+  const { foods, powerUps, setup, map } = next;
+
+  // Plan every move first so all snakes move at the same time
+  const moves = next.players.filter(player => player.alive).map(player => {
+    const { snake } = player;
+    const newHead = getNextPosition(snake.segments[0], getNextDirection(snake), map, setup.topology);
+    const eaten = foods.find(food => positionsEqual(food.position, newHead)) ?? null;
+    const collected = powerUps.find(powerUp => positionsEqual(powerUp.position, newHead)) ?? null;
+    const moved: Snake = {
+      ...snake,
+      segments: moveSegments(snake.segments, newHead, eaten ? FOOD_TYPES[eaten.kind].growth : 0),
+    };
+    return { player, newHead, eaten, collected, moved };
+  });
+
+  // Check collisions against the snakes as they will be after this move
+  const crashed = moves.filter(move => {
+    const { player, newHead, moved } = move;
+    if (
+      checkWallCollision(moved, map, setup.topology) ||
+      checkObstacleCollision(moved, map.walls) ||
+      (!hasEffect(player.activeEffects, 'GHOST') && checkSelfCollision(moved))
+    ) {
+      return true;
+    }
+
+    return moves.some(other => other !== move && (
+      positionsEqual(newHead, other.newHead) ||                                  // Head-to-head
+      other.moved.segments.slice(1).some(segment => positionsEqual(segment, newHead)) // Head-to-body
+    ));
+  });
+
+  crashed.forEach(({ player }) => {
+    next = gameReducer(next, { type: 'ELIMINATE_PLAYER', payload: player.id }, options);
+  });
+
+  if (!isTimeAttack && isGameFinished(next.players, setup.mode)) {
+    return gameReducer(next, { type: 'GAME_OVER', payload: 'CRASH' }, options);
+  }
+
+  const survivors = moves.filter(move => !crashed.includes(move));
+
+  survivors.forEach(({ player, newHead, eaten, collected }) => {
+    next = gameReducer(next, { type: 'MOVE_SNAKE', payload: { playerId: player.id, newHead, eaten, collected } }, options);
+
+    if (collected) {
+      next = gameReducer(next, { type: 'ACTIVATE_POWER_UP', payload: { playerId: player.id, kind: collected.kind } }, options);
+    }
+  });
+
+  // Food respawns once every snake has moved, so it never lands under a head
+  survivors.forEach(({ player, eaten }) => {
+    if (!eaten) return;
+
+    next = gameReducer(next, { type: 'SPAWN_FOOD', payload: eaten.kind }, options);
+
+    const effects = next.players.find(candidate => candidate.id === player.id)?.activeEffects ?? [];
+    const points = getFoodPoints(eaten.kind, effects, config);
+    next = gameReducer(next, { type: 'UPDATE_SCORE', payload: { playerId: player.id, points } }, options);
+
+    if (points > 0 && player.bot === null) {
+      next = gameReducer(next, { type: 'ADJUST_TIME', payload: TIME_ATTACK_FOOD_BONUS_MS }, options);
+    }
+  });
+
+  // Crashed snakes respawn once the others have moved, clear of their new positions
+  if (isTimeAttack) {
+    crashed.forEach(({ player }) => {
+      next = gameReducer(next, { type: 'RESPAWN_PLAYER', payload: player.id }, options);
+      if (player.bot === null) {
+        next = gameReducer(next, { type: 'ADJUST_TIME', payload: -TIME_ATTACK_CRASH_PENALTY_MS }, options);
+      }
+    });
+
+    // A snake with no room to come back in stays out
+    if (isGameFinished(next.players, setup.mode)) {
+      return gameReducer(next, { type: 'GAME_OVER', payload: 'CRASH' }, options);
+    }
+  }
+
+  while (getNextLevel(next.score, config.LEVEL_UP_SCORE) > next.level) {
+    next = gameReducer(next, { type: 'LEVEL_UP' }, options);
+  }
+
+  const stage = getStage(setup.stageId);
+  if (stage && isGoalReached(next, stage.goal)) {
+    return gameReducer(next, { type: 'COMPLETE_STAGE' }, options);
+  }
+
+  return next;
+}
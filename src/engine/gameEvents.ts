@@ -0,0 +1,67 @@
+/**
+ * Game Events
+ *
+ * Tells what happened between two game states: food eaten, a level gained,
+ * the best score beaten, a pause, the end of a game. The engine itself stays
+ * pure; the game hook compares each state with the one before and sends the
+ * events to whoever subscribed, such as the sound effects.
+ */
+
+import { GameData, GameEvent, GameEventListener } from '../types/game.types';
+
+// Subscribers to a game's events
+export interface GameEventBus {
+  subscribe: (listener: GameEventListener) => () => void;
+  emit: (event: GameEvent) => void;
+}
+
+/**
+ * Get the events that took the game from one state to the next
+ */
+export const getGameEvents = (previous: GameData, next: GameData): GameEvent[] => {
+  // A new game or a reset starts over rather than following on
+  if (next.seed !== previous.seed || next.tickCount < previous.tickCount) return [];
+
+  const events: GameEvent[] = [];
+
+  if (next.foodEaten > previous.foodEaten) {
+    events.push({ type: 'FOOD_EATEN' });
+  }
+  if (next.level > previous.level) {
+    events.push({ type: 'LEVEL_UP', level: next.level });
+  }
+  if (next.bestScore > 0 && previous.score <= next.bestScore && next.score > next.bestScore) {
+    events.push({ type: 'NEW_BEST', score: next.score });
+  }
+  if (next.isPaused !== previous.isPaused) {
+    events.push({ type: next.isPaused ? 'PAUSED' : 'RESUMED' });
+  }
+  if (next.gameState !== previous.gameState) {
+    if (next.gameState === 'STAGE_COMPLETE') {
+      events.push({ type: 'STAGE_CLEAR' });
+    } else if (next.gameState === 'GAME_OVER' && next.endReason) {
+      events.push({ type: 'GAME_OVER', reason: next.endReason });
+    }
+  }
+
+  return events;
+};
+
+/**
+ * Create an event bus with no subscribers
+ */
+export const createGameEventBus = (): GameEventBus => {
+  const listeners = new Set<GameEventListener>();
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit: (event) => {
+      listeners.forEach(listener => listener(event));
+    },
+  };
+};
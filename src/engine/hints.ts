@@ -0,0 +1,50 @@
+/**
+ * Practice Hints
+ *
+ * Training aids for practice games: the shortest path from a snake's head
+ * to food that still leaves the snake room to move once it gets there, and
+ * a warning when the current heading runs into a region too small to hold
+ * the snake.
+ */
+
+import { GameData, Hint, Player } from '../types/game.types';
+import { getNextDirection, getNextPosition, getOppositeDirection } from '../utils/gameHelpers';
+import { createOccupancyGrid, floodFill, findPaths, getFreeNeighbours, isCellFree, withBlockedCells } from './pathfinding';
+
+// Food targets checked for a safe path, nearest first
+const MAX_HINT_TARGETS = 5;
+
+/**
+ * Work out the hint for one player's snake
+ */
+export const getHint = (state: GameData, player: Player): Hint => {
+  const grid = createOccupancyGrid(state);
+  const pathGrid = createOccupancyGrid(state, true);
+  const { snake } = player;
+  const head = snake.segments[0];
+  const length = snake.segments.length;
+  const heading = getNextDirection(snake);
+
+  // Safe path: the first route to food after which the snake still fits in
+  // the space around the food, with its body laid along the route. Paths
+  // steer around poison.
+  const moves = getFreeNeighbours(head, pathGrid).filter(move => move.direction !== getOppositeDirection(heading));
+  const targets = state.foods.filter(food => food.kind !== 'POISON').map(food => food.position);
+  const safePath = findPaths(moves, targets, pathGrid, MAX_HINT_TARGETS).find(path => {
+    const target = path.cells[path.cells.length - 1];
+    const afterwards = withBlockedCells(pathGrid, [head, ...path.cells.slice(0, -1)]);
+    return floodFill(target, afterwards, length).length >= length;
+  });
+
+  // Dead end: the cell ahead is blocked or leads into fewer free cells than
+  // the snake is long
+  const ahead = getNextPosition(head, heading, state.map, state.setup.topology);
+  const region = isCellFree(ahead, grid) ? floodFill(ahead, grid, length) : [];
+  const deadEnd = region.length < length;
+
+  return {
+    path: safePath?.cells ?? [],
+    deadEnd,
+    trappedCells: deadEnd ? region : [],
+  };
+};
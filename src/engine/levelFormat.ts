@@ -0,0 +1,221 @@
+/**
+ * Level File Format
+ *
+ * Parser and serializer for the plain-text level format. A level file is a
+ * few optional `key: value` header lines followed by the board drawn row by
+ * row:
+ *
+ *   ; comment
+ *   name: Box
+ *   heading: RIGHT
+ *   #####
+ *   #.S.#
+ *   #####
+ *
+ * `#` is a wall, `.` is floor and `*` is a fixed food spawn. The snake
+ * starts on `S`, facing the `heading` header (RIGHT when omitted), or on one
+ * of `^ v < >`, which carry their own heading.
+ */
+
+import { Direction, LevelDefinition, ParseResult, Position } from '../types/game.types';
+import { 
+  getNextPosition, 
+  getOppositeDirection, 
+  isPositionInBounds, 
+  isPositionOnWall, 
+  positionsEqual 
+} from '../utils/gameHelpers';
+
+// Board size limits for level files
+export const MIN_LEVEL_SIZE = 5;
+export const MAX_LEVEL_SIZE = 100;
+
+// Length of the snake placed on the start cell
+export const START_SNAKE_LENGTH = 3;
+
+const WALL = '#';
+const FLOOR = '.';
+const FOOD_SPAWN = '*';
+const START = 'S';
+
+// Start markers that carry their own heading
+const HEADING_MARKERS: Record<string, Direction> = {
+  '^': 'UP',
+  'v': 'DOWN',
+  '<': 'LEFT',
+  '>': 'RIGHT',
+};
+
+const DIRECTIONS: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+
+/**
+ * Get the cells of a snake placed at a start position, head first
+ */
+export const getStartSegments = (start: Position, direction: Direction, length: number = START_SNAKE_LENGTH): Position[] => {
+  const segments = [start];
+  const behind = getOppositeDirection(direction);
+  for (let i = 1; i < length; i++) {
+    segments.push(getNextPosition(segments[i - 1], behind));
+  }
+  return segments;
+};
+
+/**
+ * Create an empty level with the start in the middle of the board
+ */
+export const createBlankLevel = (id: string, width: number = 20, height: number = 20): LevelDefinition => {
+  return {
+    id,
+    name: 'Untitled',
+    width,
+    height,
+    walls: [],
+    foodSpawns: [],
+    start: { x: Math.floor(width / 2), y: Math.floor(height / 2) },
+    startDirection: 'RIGHT',
+  };
+};
+
+/**
+ * Check that a level can be played: sane size, walls on the board, room
+ * for the starting snake and a free cell for food
+ */
+export const validateLevel = (level: LevelDefinition): string | null => {
+  const { width, height } = level;
+  if (width < MIN_LEVEL_SIZE || height < MIN_LEVEL_SIZE || width > MAX_LEVEL_SIZE || height > MAX_LEVEL_SIZE) {
+    return `Board must be between ${MIN_LEVEL_SIZE} and ${MAX_LEVEL_SIZE} cells in each direction`;
+  }
+
+  if (level.walls.some(wall => !isPositionInBounds(wall, level))) {
+    return 'Walls must be inside the board';
+  }
+
+  const badSpawn = level.foodSpawns.some(spawn =>
+    !isPositionInBounds(spawn, level) || isPositionOnWall(spawn, level.walls) || positionsEqual(spawn, level.start)
+  );
+  if (badSpawn) {
+    return 'Food spawns must be on free cells inside the board';
+  }
+
+  const startBlocked = getStartSegments(level.start, level.startDirection).some(segment =>
+    !isPositionInBounds(segment, level) || isPositionOnWall(segment, level.walls)
+  );
+  if (startBlocked) {
+    return `The starting snake needs ${START_SNAKE_LENGTH} free cells behind the start`;
+  }
+
+  const snakeCells = getStartSegments(level.start, level.startDirection);
+  const freeCells = width * height - new Set(
+    [...level.walls, ...snakeCells].map(cell => `${cell.x},${cell.y}`)
+  ).size;
+  if (freeCells === 0) {
+    return 'The level needs at least one free cell for food';
+  }
+
+  return null;
+};
+
+/**
+ * Parse a level from the plain-text format
+ */
+export function parseLevel(text: string, id: string): ParseResult<LevelDefinition> {
+  const headers: Record<string, string> = {};
+  const rows: string[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (line.startsWith(';')) continue;
+
+    // Header lines are only allowed before the board
+    const header = rows.length === 0 ? /^(\w+):\s*(.*)$/.exec(line) : null;
+    if (header) {
+      headers[header[1].toLowerCase()] = header[2].trim();
+      continue;
+    }
+
+    if (line.trim() === '') {
+      if (rows.length > 0) break; // A blank line ends the board
+      continue;
+    }
+    rows.push(line.trim());
+  }
+
+  if (rows.length === 0) {
+    return { ok: false, error: 'Level has no board rows' };
+  }
+
+  const width = rows[0].length;
+  if (rows.some(row => row.length !== width)) {
+    return { ok: false, error: 'All board rows must have the same width' };
+  }
+
+  const heading = (headers.heading ?? 'RIGHT').toUpperCase() as Direction;
+  if (!DIRECTIONS.includes(heading)) {
+    return { ok: false, error: `Unknown heading "${headers.heading}"` };
+  }
+
+  const walls: Position[] = [];
+  const foodSpawns: Position[] = [];
+  let start: Position | null = null;
+  let startDirection: Direction = heading;
+
+  for (let y = 0; y < rows.length; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = rows[y][x];
+      if (cell === WALL) {
+        walls.push({ x, y });
+      } else if (cell === FOOD_SPAWN) {
+        foodSpawns.push({ x, y });
+      } else if (cell === START || cell in HEADING_MARKERS) {
+        if (start) {
+          return { ok: false, error: 'Level must have exactly one start cell' };
+        }
+        start = { x, y };
+        startDirection = cell === START ? heading : HEADING_MARKERS[cell];
+      } else if (cell !== FLOOR) {
+        return { ok: false, error: `Unknown cell "${cell}" at row ${y + 1}, column ${x + 1}` };
+      }
+    }
+  }
+
+  if (!start) {
+    return { ok: false, error: 'Level must have exactly one start cell' };
+  }
+
+  const level: LevelDefinition = {
+    id,
+    name: headers.name || id,
+    width,
+    height: rows.length,
+    walls,
+    foodSpawns,
+    start,
+    startDirection,
+  };
+
+  const error = validateLevel(level);
+  return error ? { ok: false, error } : { ok: true, value: level };
+}
+
+/**
+ * Write a level in the plain-text format
+ */
+export function serializeLevel(level: LevelDefinition): string {
+  const rows: string[][] = Array.from({ length: level.height }, () =>
+    Array.from({ length: level.width }, () => FLOOR)
+  );
+
+  level.walls.forEach(wall => {
+    rows[wall.y][wall.x] = WALL;
+  });
+  level.foodSpawns.forEach(spawn => {
+    rows[spawn.y][spawn.x] = FOOD_SPAWN;
+  });
+  rows[level.start.y][level.start.x] = START;
+
+  return [
+    `name: ${level.name}`,
+    `heading: ${level.startDirection}`,
+    ...rows.map(row => row.join('')),
+  ].join('\n') + '\n';
+}
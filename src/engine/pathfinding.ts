@@ -0,0 +1,170 @@
+/**
+ * Pathfinding
+ *
+ * Occupancy grid, breadth-first search and flood fill over the board. The
+ * grid marks the cells that end the game when moved into; searches step
+ * across the edges on a wrap-around board. Shared by the bots and the
+ * practice hints.
+ */
+
+import { BoardTopology, Direction, GameData, LevelDefinition, Position } from '../types/game.types';
+import { getNextPosition, isPositionInBounds } from '../utils/gameHelpers';
+
+// A step from a cell to one of its neighbours
+export interface GridMove {
+  direction: Direction;
+  position: Position;
+}
+
+// Board cells that are blocked on the coming tick
+export interface OccupancyGrid {
+  map: LevelDefinition;
+  topology: BoardTopology;
+  blocked: Set<number>;      // Indexes (see cellIndex) of blocked cells
+}
+
+// A shortest path found by findPath
+export interface GridPath {
+  direction: Direction;      // First step of the path
+  cells: Position[];         // Cells from the first step to the target
+}
+
+const DIRECTIONS: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+
+/**
+ * Index of a cell in the board's row-major grid
+ */
+export const cellIndex = (position: Position, map: LevelDefinition): number => position.y * map.width + position.x;
+
+/**
+ * Build the occupancy grid for the coming tick. Walls and the living
+ * snakes' bodies are blocked; tails are left free because they move away on
+ * the same tick. Poison can be blocked too, for players who steer around it.
+ */
+export const createOccupancyGrid = (state: GameData, avoidPoison: boolean = false): OccupancyGrid => {
+  const { map, setup } = state;
+  const blocked = new Set<number>();
+
+  map.walls.forEach(wall => blocked.add(cellIndex(wall, map)));
+  state.players.filter(player => player.alive).forEach(player => {
+    player.snake.segments.slice(0, -1).forEach(segment => blocked.add(cellIndex(segment, map)));
+  });
+
+  if (avoidPoison) {
+    state.foods
+      .filter(food => food.kind === 'POISON')
+      .forEach(food => blocked.add(cellIndex(food.position, map)));
+  }
+
+  return { map, topology: setup.topology, blocked };
+};
+
+/**
+ * Copy of a grid with extra cells blocked
+ */
+export const withBlockedCells = (grid: OccupancyGrid, cells: Position[]): OccupancyGrid => {
+  const blocked = new Set(grid.blocked);
+  cells.forEach(cell => blocked.add(cellIndex(cell, grid.map)));
+  return { ...grid, blocked };
+};
+
+/**
+ * Check whether a cell can be moved into
+ */
+export const isCellFree = (position: Position, grid: OccupancyGrid): boolean => {
+  return isPositionInBounds(position, grid.map) && !grid.blocked.has(cellIndex(position, grid.map));
+};
+
+/**
+ * Free neighbouring cells of a position
+ */
+export const getFreeNeighbours = (position: Position, grid: OccupancyGrid): GridMove[] => {
+  return DIRECTIONS
+    .map(direction => ({ direction, position: getNextPosition(position, direction, grid.map, grid.topology) }))
+    .filter(move => isCellFree(move.position, grid));
+};
+
+/**
+ * Flood fill from a position (included), stopping once `limit` cells have
+ * been found. Returns the reached cells.
+ */
+export const floodFill = (start: Position, grid: OccupancyGrid, limit: number = Infinity): Position[] => {
+  const seen = new Set<number>([cellIndex(start, grid.map)]);
+  const reached = [start];
+
+  for (let i = 0; i < reached.length && reached.length < limit; i++) {
+    getFreeNeighbours(reached[i], grid).forEach(neighbour => {
+      const index = cellIndex(neighbour.position, grid.map);
+      if (!seen.has(index) && reached.length < limit) {
+        seen.add(index);
+        reached.push(neighbour.position);
+      }
+    });
+  }
+
+  return reached;
+};
+
+/**
+ * Count the cells reachable from a position, up to `limit`
+ */
+export const countReachableCells = (start: Position, grid: OccupancyGrid, limit: number = Infinity): number => {
+  return floodFill(start, grid, limit).length;
+};
+
+/**
+ * Breadth-first search from the given first steps. Returns the shortest
+ * path to each reachable target, nearest first, stopping after `maxPaths`.
+ */
+export const findPaths = (
+  moves: GridMove[],
+  targets: Position[],
+  grid: OccupancyGrid,
+  maxPaths: number = Infinity
+): GridPath[] => {
+  const targetCells = new Set(targets.map(target => cellIndex(target, grid.map)));
+  const parents = new Map<number, Position | null>();
+  const firstSteps = new Map<number, Direction>();
+  const queue: Position[] = [];
+  const paths: GridPath[] = [];
+
+  moves.forEach(move => {
+    const index = cellIndex(move.position, grid.map);
+    if (parents.has(index)) return;
+    parents.set(index, null);
+    firstSteps.set(index, move.direction);
+    queue.push(move.position);
+  });
+
+  for (let i = 0; i < queue.length && paths.length < maxPaths; i++) {
+    const position = queue[i];
+    const index = cellIndex(position, grid.map);
+
+    if (targetCells.has(index)) {
+      const cells = [position];
+      for (let parent = parents.get(index); parent; parent = parents.get(cellIndex(parent, grid.map))) {
+        cells.unshift(parent);
+      }
+      paths.push({ direction: firstSteps.get(index)!, cells });
+    }
+
+    getFreeNeighbours(position, grid).forEach(neighbour => {
+      const neighbourIndex = cellIndex(neighbour.position, grid.map);
+      if (!parents.has(neighbourIndex)) {
+        parents.set(neighbourIndex, position);
+        firstSteps.set(neighbourIndex, firstSteps.get(index)!);
+        queue.push(neighbour.position);
+      }
+    });
+  }
+
+  return paths;
+};
+
+/**
+ * First step of the shortest path to the nearest target, or null when no
+ * target can be reached
+ */
+export const findPathDirection = (moves: GridMove[], targets: Position[], grid: OccupancyGrid): Direction | null => {
+  return findPaths(moves, targets, grid, 1)[0]?.direction ?? null;
+};
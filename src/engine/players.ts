@@ -0,0 +1,251 @@
+/**
+ * Players
+ *
+ * Creates the players for a game setup and decides when a game is over and
+ * who won. Solo games have one player; versus games add a second snake
+ * that starts opposite the first. Bots join after the human players, each
+ * starting as far from the others as the map allows. In time attack a
+ * crashed snake respawns at a free start instead of leaving the game.
+ */
+
+import {
+  Direction,
+  GameMode,
+  GameSetup,
+  LevelDefinition,
+  Player,
+  Position,
+  Snake,
+  BOT_STYLES,
+  MAX_BOTS,
+  PLAYER_STYLES
+} from '../types/game.types';
+import { getNextPosition, getOppositeDirection, isPositionInBounds, isPositionOnWall, positionsEqual } from '../utils/gameHelpers';
+import { getStartSegments, START_SNAKE_LENGTH } from './levelFormat';
+
+interface StartPosition {
+  start: Position;
+  direction: Direction;
+}
+
+// Closest two starting heads may be to each other (in moves)
+const MIN_START_DISTANCE = 4;
+
+const DIRECTIONS: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+
+// Cells a start covers: the snake itself and the room it needs to move ahead
+const getStartCells = (candidate: StartPosition): Position[] => {
+  const ahead = [getNextPosition(candidate.start, candidate.direction)];
+  while (ahead.length < START_SNAKE_LENGTH) {
+    ahead.push(getNextPosition(ahead[ahead.length - 1], candidate.direction));
+  }
+  return [...getStartSegments(candidate.start, candidate.direction), ...ahead];
+};
+
+// Check that a start fits on the map, has room to move ahead and doesn't touch the other starts
+const isStartFree = (candidate: StartPosition, map: LevelDefinition, taken: StartPosition[]): boolean => {
+  const segments = getStartSegments(candidate.start, candidate.direction);
+  if (getStartCells(candidate).some(cell => !isPositionInBounds(cell, map) || isPositionOnWall(cell, map.walls))) {
+    return false;
+  }
+
+  return taken.every(other => {
+    const distance = Math.abs(other.start.x - candidate.start.x) + Math.abs(other.start.y - candidate.start.y);
+    const otherSegments = getStartSegments(other.start, other.direction);
+    return distance >= MIN_START_DISTANCE && !segments.some(segment => otherSegments.some(cell => positionsEqual(cell, segment)));
+  });
+};
+
+// Mirror a start through the centre of the board, facing the other way
+const mirrorStart = ({ start, direction }: StartPosition, map: LevelDefinition): StartPosition => ({
+  start: { x: map.width - 1 - start.x, y: map.height - 1 - start.y },
+  direction: getOppositeDirection(direction),
+});
+
+// Find the free start whose head is furthest from the nearest taken start
+const findFurthestStart = (map: LevelDefinition, taken: StartPosition[]): StartPosition | null => {
+  let furthest: StartPosition | null = null;
+  let furthestDistance = -1;
+  for (let y = 0; y < map.height; y++) {
+    for (let x = 0; x < map.width; x++) {
+      const distance = Math.min(...taken.map(other => Math.abs(x - other.start.x) + Math.abs(y - other.start.y)));
+      if (distance <= furthestDistance) continue;
+
+      const direction = DIRECTIONS.find(candidate => isStartFree({ start: { x, y }, direction: candidate }, map, taken));
+      if (direction) {
+        furthest = { start: { x, y }, direction };
+        furthestDistance = distance;
+      }
+    }
+  }
+  return furthest;
+};
+
+/**
+ * Get the starting positions for `count` snakes. Player 2 mirrors player 1
+ * through the centre of the board; when that's blocked or too close, both
+ * move a quarter of the board apart, and as a last resort player 2 takes
+ * the free start furthest from player 1. Every further snake takes the
+ * free start furthest from all the others. Crowded maps may return fewer
+ * starts than asked for.
+ */
+export const getStartPositions = (map: LevelDefinition, count: number): StartPosition[] => {
+  const first: StartPosition = { start: map.start, direction: map.startDirection };
+  if (count < 2) return [first];
+
+  const mirrored = mirrorStart(first, map);
+  const shifted: StartPosition = { ...first, start: { x: map.start.x, y: map.start.y - Math.floor(map.height / 4) } };
+  const shiftedMirror = mirrorStart(shifted, map);
+
+  let starts: StartPosition[] = [first];
+  if (isStartFree(mirrored, map, [first])) {
+    starts = [first, mirrored];
+  } else if (isStartFree(shifted, map, []) && isStartFree(shiftedMirror, map, [shifted])) {
+    starts = [shifted, shiftedMirror];
+  }
+
+  while (starts.length < count) {
+    const furthest = findFurthestStart(map, starts);
+    if (!furthest) break;
+    starts = [...starts, furthest];
+  }
+
+  return starts;
+};
+
+/**
+ * Create the players for a game setup on a map: the human players first,
+ * then up to MAX_BOTS bots
+ */
+export const createPlayers = (map: LevelDefinition, setup: GameSetup): Player[] => {
+  const humans = setup.mode === 'VERSUS' ? 2 : 1;
+  const bots = Math.min(Math.max(setup.bots, 0), MAX_BOTS);
+  const starts = getStartPositions(map, humans + bots);
+
+  return starts.map(({ start, direction }, id) => {
+    const snake: Snake = {
+      segments: getStartSegments(start, direction),
+      direction,
+      directionQueue: [],
+    };
+    const isBot = id >= humans;
+    const style = isBot ? BOT_STYLES[id - humans] : PLAYER_STYLES[id];
+
+    return {
+      id,
+      name: style.name,
+      style,
+      bot: isBot ? setup.botDifficulty : null,
+      snake,
+      score: 0,
+      alive: true,
+      activeEffects: [],
+    };
+  });
+};
+
+/**
+ * Get the snake a crashed player respawns as: at the map's start when no
+ * other snake is left, otherwise at the free start furthest from the other
+ * living snakes' heads, clear of their bodies. Items (food and power-up
+ * cells) are kept clear too, so the snake doesn't eat one as it appears;
+ * a lone snake whose start is blocked comes back at the nearest clear one.
+ * Returns null when the board has no room left.
+ */
+export const getRespawnSnake = (
+  map: LevelDefinition,
+  players: Player[],
+  playerId: number,
+  items: Position[] = []
+): Snake | null => {
+  const others = players.filter(player => player.alive && player.id !== playerId);
+  const occupied = new Set([
+    ...others.flatMap(player => player.snake.segments.map(cell => `${cell.x},${cell.y}`)),
+    ...items.map(cell => `${cell.x},${cell.y}`),
+  ]);
+  const heads = others.map(player => player.snake.segments[0]);
+  const isClear = (candidate: StartPosition) =>
+    isStartFree(candidate, map, []) && getStartCells(candidate).every(cell => !occupied.has(`${cell.x},${cell.y}`));
+
+  let respawn: StartPosition | null = null;
+  const mapStart: StartPosition = { start: map.start, direction: map.startDirection };
+  if (heads.length === 0 && isClear(mapStart)) {
+    respawn = mapStart;
+  } else {
+    // Furthest from the other heads, or nearest the map's start when there are none
+    const getScore = (x: number, y: number) => heads.length > 0
+      ? Math.min(...heads.map(head => Math.abs(x - head.x) + Math.abs(y - head.y)))
+      : -(Math.abs(x - map.start.x) + Math.abs(y - map.start.y));
+
+    let bestScore = -Infinity;
+    for (let y = 0; y < map.height; y++) {
+      for (let x = 0; x < map.width; x++) {
+        const score = getScore(x, y);
+        if (score <= bestScore) continue;
+
+        const direction = DIRECTIONS.find(candidate => isClear({ start: { x, y }, direction: candidate }));
+        if (direction) {
+          respawn = { start: { x, y }, direction };
+          bestScore = score;
+        }
+      }
+    }
+  }
+
+  if (!respawn) return null;
+  return {
+    segments: getStartSegments(respawn.start, respawn.direction),
+    direction: respawn.direction,
+    directionQueue: [],
+  };
+};
+
+/**
+ * Check whether a game is over: every game ends once all human players
+ * have crashed, and a versus game also ends when at most one snake is left
+ */
+export const isGameFinished = (players: Player[], mode: GameMode): boolean => {
+  if (players.every(player => player.bot !== null || !player.alive)) {
+    return true;
+  }
+  return mode === 'VERSUS' && players.length > 1 && players.filter(player => player.alive).length <= 1;
+};
+
+/**
+ * Get the winner of a finished game with more than one snake. Versus games
+ * go to the last snake standing, or the higher score when the last snakes
+ * crashed together; solo games against bots go to the highest score.
+ * Returns null for a draw or a game without opponents.
+ */
+export const getWinner = (players: Player[], mode: GameMode): Player | null => {
+  if (players.length < 2) return null;
+
+  const survivors = players.filter(player => player.alive);
+  if (mode === 'VERSUS' && survivors.length === 1) return survivors[0];
+
+  const contenders = mode === 'VERSUS' && survivors.length > 0 ? survivors : players;
+  const topScore = Math.max(...contenders.map(player => player.score));
+  const leaders = contenders.filter(player => player.score === topScore);
+  return leaders.length === 1 ? leaders[0] : null;
+};
+
+/**
+ * Replace one player, leaving the others untouched
+ */
+export const updatePlayer = (players: Player[], playerId: number, update: (player: Player) => Player): Player[] => {
+  return players.map(player => (player.id === playerId ? update(player) : player));
+};
+
+/**
+ * Get the highest score of the human players
+ */
+export const getHumanScore = (players: Player[]): number => {
+  return Math.max(0, ...players.filter(player => player.bot === null).map(player => player.score));
+};
+
+/**
+ * Get the snakes still in play
+ */
+export const getLivingSnakes = (players: Player[]): Snake[] => {
+  return players.filter(player => player.alive).map(player => player.snake);
+};
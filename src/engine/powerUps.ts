@@ -0,0 +1,124 @@
+/**
+ * Power-Ups
+ *
+ * Spawn rules and effects for the collectible power-ups in POWER_UP_TYPES.
+ * Collected power-ups become ActiveEffects with a tick-based duration that
+ * the engine consults for collisions (ghost), speed (slow-motion), food
+ * movement (magnet) and scoring (double score).
+ */
+
+import {
+  ActiveEffect,
+  BoardTopology,
+  Food,
+  GameConfig,
+  LevelDefinition,
+  Position,
+  PowerUp,
+  PowerUpKind,
+  RandomSource,
+  Snake,
+  POWER_UP_TYPES,
+  POWER_UP_SPAWN_CHANCE,
+  POWER_UP_LIFETIME,
+  SLOW_MOTION_FACTOR,
+  MAGNET_RANGE
+} from '../types/game.types';
+import {
+  calculateGameSpeed,
+  getPositionDelta,
+  isPositionInBounds,
+  isPositionOnSnake,
+  isPositionOnWall,
+  wrapPosition
+} from '../utils/gameHelpers';
+import { findFreeCell } from './foods';
+
+const POWER_UP_KINDS = Object.keys(POWER_UP_TYPES) as PowerUpKind[];
+
+// Power-ups never spawn right next to the head
+const POWER_UP_MIN_HEAD_DISTANCE = 4;
+
+/**
+ * Check whether an effect is currently running
+ */
+export const hasEffect = (effects: ActiveEffect[], kind: PowerUpKind): boolean => {
+  return effects.some(effect => effect.kind === kind);
+};
+
+/**
+ * Start an effect, restarting its countdown if it's already running
+ */
+export const activateEffect = (effects: ActiveEffect[], kind: PowerUpKind): ActiveEffect[] => {
+  const { duration } = POWER_UP_TYPES[kind];
+  return [...effects.filter(effect => effect.kind !== kind), { kind, ticksLeft: duration, duration }];
+};
+
+/**
+ * Game speed for a level, slowed down while slow-motion runs
+ */
+export const getEffectiveGameSpeed = (level: number, effects: ActiveEffect[], config: GameConfig): number => {
+  const speed = calculateGameSpeed(level, config);
+  return hasEffect(effects, 'SLOW_MOTION') ? Math.round(speed * SLOW_MOTION_FACTOR) : speed;
+};
+
+/**
+ * Roll for a new power-up after normal food is eaten. Only one power-up
+ * waits on the board at a time.
+ */
+export const spawnPowerUps = (
+  powerUps: PowerUp[],
+  snakes: Snake[],
+  map: LevelDefinition,
+  occupied: Position[],
+  random: RandomSource,
+  topology: BoardTopology = 'WALLS'
+): PowerUp[] => {
+  if (powerUps.length > 0 || random() >= POWER_UP_SPAWN_CHANCE) return powerUps;
+
+  const kind = POWER_UP_KINDS[Math.floor(random() * POWER_UP_KINDS.length)];
+  const position = findFreeCell(snakes, map, occupied, random, POWER_UP_MIN_HEAD_DISTANCE, topology);
+  return position ? [{ kind, position, ticksLeft: POWER_UP_LIFETIME }] : powerUps;
+};
+
+/**
+ * Pull food within MAGNET_RANGE one cell toward a head, along the longer
+ * axis first. On a wrap-around board food is pulled the shorter way, across
+ * the edge if need be. Poison is left where it is, and food never moves onto
+ * walls, snakes or other items.
+ */
+export const pullFoods = (
+  foods: Food[],
+  head: Position,
+  snakes: Snake[],
+  map: LevelDefinition,
+  powerUps: PowerUp[],
+  topology: BoardTopology = 'WALLS'
+): Food[] => {
+  let pulled = foods;
+
+  foods.forEach((food, index) => {
+    const { x: dx, y: dy } = getPositionDelta(food.position, head, map, topology);
+    const distance = Math.abs(dx) + Math.abs(dy);
+    if (food.kind === 'POISON' || distance > MAGNET_RANGE || distance <= 1) return;
+
+    const step = (cell: Position) => (topology === 'WRAP' ? wrapPosition(cell, map) : cell);
+    const stepX = step({ x: food.position.x + Math.sign(dx), y: food.position.y });
+    const stepY = step({ x: food.position.x, y: food.position.y + Math.sign(dy) });
+    const candidates = Math.abs(dx) >= Math.abs(dy) ? [stepX, stepY] : [stepY, stepX];
+
+    const blocked = [...map.walls, ...powerUps.map(powerUp => powerUp.position), ...pulled.map(other => other.position)];
+    const target = candidates.find(cell =>
+      (cell.x !== food.position.x || cell.y !== food.position.y) &&
+      isPositionInBounds(cell, map) &&
+      !snakes.some(snake => isPositionOnSnake(cell, snake)) &&
+      !isPositionOnWall(cell, blocked)
+    );
+
+    if (target) {
+      pulled = pulled.map((other, otherIndex) => (otherIndex === index ? { ...other, position: target } : other));
+    }
+  });
+
+  return pulled;
+};
@@ -0,0 +1,63 @@
+/**
+ * Seeded Random Number Generator
+ *
+ * Deterministic PRNG (mulberry32) whose whole state is a single 32-bit
+ * integer. The state lives in GameData, so the same seed plus the same
+ * inputs always produces the same game.
+ */
+
+import { RandomSource } from '../types/game.types';
+
+/**
+ * Advance the generator once, returning the value and the next state
+ */
+export const nextRandom = (state: number): [number, number] => {
+  const nextState = (state + 0x6d2b79f5) >>> 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, nextState];
+};
+
+/**
+ * Run a function with a random source backed by the given state, returning
+ * its result together with the state after all draws
+ */
+export function withRandom<T>(state: number, fn: (random: RandomSource) => T): { result: T; state: number } {
+  let current = state;
+  const random: RandomSource = () => {
+    const [value, nextState] = nextRandom(current);
+    current = nextState;
+    return value;
+  };
+
+  const result = fn(random);
+  return { result, state: current };
+}
+
+/**
+ * Create a new seed for games started without one
+ */
+export const createSeed = (): number => {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+};
+
+/**
+ * Parse user input into a seed. Numbers are used as-is (wrapped to 32 bits),
+ * any other text is hashed (FNV-1a) so words work as seeds too.
+ */
+export const parseSeed = (input: string): number | null => {
+  const text = input.trim();
+  if (text === '') return null;
+
+  if (/^\d+$/.test(text)) {
+    return Number(BigInt(text) % 4294967296n);
+  }
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
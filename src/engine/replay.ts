@@ -0,0 +1,105 @@
+/**
+ * Replays
+ *
+ * Records a finished game as its seed, options and the turns players made,
+ * and plays it back step by step. Playback feeds the recorded turns into
+ * the same reducer before each step, so the deterministic engine rebuilds
+ * every frame of the original game, bots included.
+ */
+
+import { GameConfig, GameData, Replay } from '../types/game.types';
+import { gameReducer, createInitialGameData, EngineOptions } from './gameEngine';
+
+// Bumped whenever the replay format or the rules it depends on change
+export const REPLAY_VERSION = 2;
+
+/**
+ * Create the replay of a game played with the given configuration
+ */
+export const createReplay = (state: GameData, config: GameConfig): Replay => {
+  return {
+    version: REPLAY_VERSION,
+    seed: state.seed,
+    setup: state.setup,
+    map: state.map,
+    config,
+    inputs: state.inputLog,
+    ticks: state.tickCount,
+  };
+};
+
+/**
+ * Engine options a replay is played back with
+ */
+export const getReplayOptions = (replay: Replay): EngineOptions => ({ config: replay.config });
+
+/**
+ * The game state a replay starts from, before its first step
+ */
+export const startReplay = (replay: Replay): GameData => {
+  const options = getReplayOptions(replay);
+  const ready = createInitialGameData(replay.config, 0, replay.seed, replay.setup, replay.map);
+  return gameReducer(ready, { type: 'START_GAME', payload: { seed: replay.seed, setup: replay.setup, map: replay.map } }, options);
+};
+
+/**
+ * Play one step of a replay: apply the turns recorded for this step, then tick
+ */
+export const stepReplay = (state: GameData, replay: Replay): GameData => {
+  if (state.gameState !== 'PLAYING') return state;
+
+  const options = getReplayOptions(replay);
+  let next = state;
+  replay.inputs
+    .filter(([tick]) => tick === state.tickCount)
+    .forEach(([, direction, playerId]) => {
+      next = gameReducer(next, { type: 'CHANGE_DIRECTION', payload: { playerId, direction } }, options);
+    });
+
+  return gameReducer(next, { type: 'TICK' }, options);
+};
+
+// Ticks between the saved states seeking starts from
+export const REPLAY_KEYFRAME_INTERVAL = 50;
+
+// States of one replay saved every REPLAY_KEYFRAME_INTERVAL ticks, by tick
+export type ReplayKeyframes = Map<number, GameData>;
+
+/**
+ * Save a state as a keyframe if it falls on the keyframe interval
+ */
+export const recordReplayKeyframe = (keyframes: ReplayKeyframes, state: GameData): void => {
+  if (state.tickCount % REPLAY_KEYFRAME_INTERVAL === 0 && !keyframes.has(state.tickCount)) {
+    keyframes.set(state.tickCount, state);
+  }
+};
+
+/**
+ * The game state after `tick` steps of a replay. Steps on from `current`
+ * when it's at or before `tick`, otherwise from the nearest saved keyframe
+ * before it (or the start), saving keyframes along the way, so scrubbing
+ * only replays the ticks between.
+ */
+export const getReplayStateAt = (
+  replay: Replay,
+  tick: number,
+  current?: GameData,
+  keyframes: ReplayKeyframes = new Map()
+): GameData => {
+  let keyTick = Math.floor(tick / REPLAY_KEYFRAME_INTERVAL) * REPLAY_KEYFRAME_INTERVAL;
+  while (keyTick > 0 && !keyframes.has(keyTick)) {
+    keyTick -= REPLAY_KEYFRAME_INTERVAL;
+  }
+
+  let state = keyframes.get(keyTick) ?? startReplay(replay);
+  if (current && current.tickCount <= tick && current.tickCount >= state.tickCount) {
+    state = current;
+  }
+
+  recordReplayKeyframe(keyframes, state);
+  while (state.tickCount < tick && state.gameState === 'PLAYING') {
+    state = stepReplay(state, replay);
+    recordReplayKeyframe(keyframes, state);
+  }
+  return state;
+};
@@ -0,0 +1,189 @@
+/**
+ * Share Codes
+ *
+ * Encodes replays and challenges (a seeded game to play) as compact,
+ * versioned, URL-safe strings:
+ *
+ *   r1.<payload>   replay
+ *   c1.<payload>   challenge
+ *
+ * The payload is base64url-encoded JSON. Maps travel in the plain-text
+ * level format and replay turns as a short string, so links stay small.
+ * Decoding validates everything before a game or replay is built from it.
+ */
+
+import {
+  BoardTopology,
+  BotDifficulty,
+  Direction,
+  GameConfig,
+  GameMode,
+  GameSetup,
+  ParseResult,
+  Replay,
+  ReplayInput,
+  SharedGame,
+  MAX_BOTS
+} from '../types/game.types';
+import { parseLevel, serializeLevel } from './levelFormat';
+import { REPLAY_VERSION } from './replay';
+import { getStage } from './campaign';
+import { isValidConfig } from './difficulty';
+
+// Bumped whenever the share code layout changes
+export const SHARE_CODE_VERSION = 1;
+
+const KIND_PREFIXES: Record<SharedGame['kind'], string> = {
+  REPLAY: 'r',
+  CHALLENGE: 'c',
+};
+
+const MODES: GameMode[] = ['SOLO', 'VERSUS'];
+const TOPOLOGIES: BoardTopology[] = ['WALLS', 'WRAP'];
+const BOT_DIFFICULTIES: BotDifficulty[] = ['GREEDY', 'SAFE_PATH', 'SURVIVAL'];
+
+// One letter per direction in encoded replay turns
+const DIRECTION_CODES: Record<Direction, string> = { UP: 'U', DOWN: 'D', LEFT: 'L', RIGHT: 'R' };
+const CODE_DIRECTIONS: Record<string, Direction> = { U: 'UP', D: 'DOWN', L: 'LEFT', R: 'RIGHT' };
+
+// JSON payload shared by both kinds; replays add their turns
+interface SharePayload {
+  s: number;                 // Seed
+  g: GameSetup;
+  c: GameConfig;
+  i: string;                 // Map id
+  m: string;                 // Map in the plain-text level format
+  v?: number;                // Replay version
+  n?: string;                // Replay turns, see encodeInputs
+  t?: number;                // Replay length in ticks
+}
+
+const toBase64Url = (text: string): string => {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+/**
+ * Write replay turns as "<ticks since previous turn><direction letter><player id>"
+ * joined by commas, leaving out player 1's id
+ */
+const encodeInputs = (inputs: ReplayInput[]): string => {
+  let previousTick = 0;
+  return inputs.map(([tick, direction, playerId]) => {
+    const delta = tick - previousTick;
+    previousTick = tick;
+    return `${delta}${DIRECTION_CODES[direction]}${playerId > 0 ? playerId : ''}`;
+  }).join(',');
+};
+
+const decodeInputs = (encoded: string): ReplayInput[] | null => {
+  if (encoded === '') return [];
+
+  const inputs: ReplayInput[] = [];
+  let tick = 0;
+  for (const part of encoded.split(',')) {
+    const match = /^(\d+)([UDLR])(\d*)$/.exec(part);
+    if (!match) return null;
+    tick += Number(match[1]);
+    inputs.push([tick, CODE_DIRECTIONS[match[2]], match[3] ? Number(match[3]) : 0]);
+  }
+  return inputs;
+};
+
+const isWholeNumber = (value: unknown, min: number, max: number): value is number => {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+};
+
+const isValidSetup = (setup: unknown, mapId: string): setup is GameSetup => {
+  if (typeof setup !== 'object' || setup === null) return false;
+  const candidate = setup as Partial<GameSetup>;
+  return (
+    MODES.includes(candidate.mode as GameMode) &&
+    TOPOLOGIES.includes(candidate.topology as BoardTopology) &&
+    BOT_DIFFICULTIES.includes(candidate.botDifficulty as BotDifficulty) &&
+    isWholeNumber(candidate.bots, 0, MAX_BOTS) &&
+    typeof candidate.practice === 'boolean' &&
+    (candidate.timeLimit === undefined || isWholeNumber(candidate.timeLimit, 1, 3600)) &&
+    (candidate.stageId === undefined || getStage(candidate.stageId) !== undefined) &&
+    candidate.mapId === mapId
+  );
+};
+
+/**
+ * Encode a shared replay or challenge as a share code
+ */
+export const encodeShareCode = (shared: SharedGame): string => {
+  const { seed, setup, map, config } = shared.kind === 'REPLAY' ? shared.replay : shared;
+  const payload: SharePayload = { s: seed, g: setup, c: config, i: map.id, m: serializeLevel(map) };
+
+  if (shared.kind === 'REPLAY') {
+    payload.v = shared.replay.version;
+    payload.n = encodeInputs(shared.replay.inputs);
+    payload.t = shared.replay.ticks;
+  }
+
+  return `${KIND_PREFIXES[shared.kind]}${SHARE_CODE_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+};
+
+/**
+ * Decode and validate a share code
+ */
+export function decodeShareCode(code: string): ParseResult<SharedGame> {
+  const match = /^([rc])(\d+)\.([\w-]+)$/.exec(code.trim());
+  if (!match) {
+    return { ok: false, error: 'This link is not a valid replay or challenge link' };
+  }
+
+  const [, prefix, version, encoded] = match;
+  if (Number(version) !== SHARE_CODE_VERSION) {
+    return { ok: false, error: `This link was made by a different version of the game (v${version})` };
+  }
+
+  let payload: Partial<SharePayload>;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    return { ok: false, error: 'This link is damaged and could not be read' };
+  }
+
+  if (typeof payload !== 'object' || payload === null || typeof payload.i !== 'string' || typeof payload.m !== 'string') {
+    return { ok: false, error: 'This link is missing its game details' };
+  }
+  if (!isWholeNumber(payload.s, 0, 4294967295)) {
+    return { ok: false, error: 'This link has an invalid seed' };
+  }
+  if (!isValidSetup(payload.g, payload.i)) {
+    return { ok: false, error: 'This link has invalid game options' };
+  }
+  if (!isValidConfig(payload.c)) {
+    return { ok: false, error: 'This link has invalid game settings' };
+  }
+
+  // Parsing runs validateLevel, so a map with no room for food (which would
+  // leave the game nowhere to put it) is turned away here
+  const level = parseLevel(payload.m, payload.i);
+  if (!level.ok) {
+    return { ok: false, error: `This link has an invalid map: ${level.error}` };
+  }
+
+  const game = { seed: payload.s, setup: payload.g, map: level.value, config: payload.c };
+  if (prefix === KIND_PREFIXES.CHALLENGE) {
+    return { ok: true, value: { kind: 'CHALLENGE', ...game } };
+  }
+
+  if (payload.v !== REPLAY_VERSION) {
+    return { ok: false, error: 'This replay was recorded with different game rules and cannot be played back' };
+  }
+  const inputs = typeof payload.n === 'string' ? decodeInputs(payload.n) : null;
+  if (!inputs || !isWholeNumber(payload.t, 0, Number.MAX_SAFE_INTEGER)) {
+    return { ok: false, error: 'This replay link is damaged and could not be read' };
+  }
+
+  const replay: Replay = { version: payload.v, ...game, inputs, ticks: payload.t };
+  return { ok: true, value: { kind: 'REPLAY', replay } };
+}
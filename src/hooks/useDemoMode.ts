@@ -0,0 +1,163 @@
+/**
+ * Demo Mode Hook
+ *
+ * Attract mode for the READY screen. After the game has sat idle for a few
+ * seconds an autopilot plays demo games on its own engine state, one after
+ * another, until any key press, click or touch ends the demo. Demo games
+ * never reach the main game state, so they can't touch best scores, stats
+ * or achievements.
+ */
+
+import { useReducer, useState, useEffect, useCallback } from 'react';
+import {
+  BotDifficulty,
+  GameAction,
+  GameConfig,
+  GameData,
+  GameSetup,
+  InterpolationSource,
+  LevelDefinition,
+  DEFAULT_GAME_CONFIG
+} from '../types/game.types';
+import { gameReducer, createInitialGameData, EngineOptions } from '../engine/gameEngine';
+import { chooseBotDirection } from '../engine/bots';
+import { createSeed } from '../engine/random';
+import { useGameLoop } from './useGameLoop';
+import { createInterpolation } from './useInterpolation';
+
+interface UseDemoModeOptions {
+  enabled: boolean;          // Whether the game is idle enough for a demo
+  setup: GameSetup;          // Options the demo games are played with
+  map: LevelDefinition;
+  config?: GameConfig;       // Difficulty's configuration, as for the real game
+  idleDelay?: number;        // Idle time before the demo starts (ms)
+}
+
+interface UseDemoModeReturn {
+  demoData: GameData;
+  interpolation: InterpolationSource;
+  isDemoRunning: boolean;
+  stopDemo: () => void;
+}
+
+// Autopilot skill for the human snakes in demo games
+const DEMO_BOT_DIFFICULTY: BotDifficulty = 'SURVIVAL';
+
+// Pause between one demo game ending and the next starting (ms)
+const DEMO_RESTART_DELAY = 2000;
+
+// Inputs that end the demo
+const ACTIVITY_EVENTS = ['keydown', 'pointerdown', 'touchstart'] as const;
+
+/**
+ * Engine reducer for demo games: the autopilot steers every human snake
+ * just before each step, using the same move choice as the bots
+ */
+const demoReducer = (state: GameData, action: GameAction, options: EngineOptions): GameData => {
+  let next = state;
+
+  if (action.type === 'TICK' && state.gameState === 'PLAYING') {
+    state.players.filter(player => player.alive && player.bot === null).forEach(player => {
+      const direction = chooseBotDirection(next, { ...player, bot: DEMO_BOT_DIFFICULTY });
+      next = gameReducer(next, { type: 'CHANGE_DIRECTION', payload: { playerId: player.id, direction } }, options);
+    });
+  }
+
+  return gameReducer(next, action, options);
+};
+
+/**
+ * Hook that plays demo games while the game is left idle
+ */
+export function useDemoMode({
+  enabled,
+  setup,
+  map,
+  config = DEFAULT_GAME_CONFIG,
+  idleDelay = 5000,
+}: UseDemoModeOptions): UseDemoModeReturn {
+  // Bind the demo reducer to the selected configuration for useReducer
+  const reducer = useCallback(
+    (state: GameData, action: GameAction): GameData => demoReducer(state, action, { config }),
+    [config]
+  );
+  const [demoData, dispatch] = useReducer(
+    reducer,
+    undefined,
+    () => createInitialGameData(config, 0, 0, setup, map)
+  );
+  const [isDemoRunning, setIsDemoRunning] = useState(false);
+  const [interpolation] = useState(createInterpolation);
+
+  // Bumped on every input so the idle countdown starts over
+  const [lastActivity, setLastActivity] = useState(0);
+
+  // A stopped demo can be left mid-game, and START_GAME ignores a game in play,
+  // so each demo game begins from a reset
+  const startDemoGame = useCallback(() => {
+    dispatch({ type: 'RESET_GAME' });
+    dispatch({ type: 'START_GAME', payload: { seed: createSeed(), setup, map } });
+  }, [setup, map]);
+
+  const stopDemo = useCallback(() => {
+    setIsDemoRunning(false);
+    setLastActivity(Date.now());
+  }, []);
+
+  // Start the demo once the game has been idle long enough
+  useEffect(() => {
+    if (!enabled || isDemoRunning) return;
+
+    const timer = setTimeout(() => {
+      startDemoGame();
+      setIsDemoRunning(true);
+    }, idleDelay);
+    return () => clearTimeout(timer);
+  }, [enabled, isDemoRunning, idleDelay, lastActivity, startDemoGame]);
+
+  // Any input ends the demo and restarts the idle countdown
+  useEffect(() => {
+    if (!enabled) return;
+
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, stopDemo, true));
+    return () => {
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, stopDemo, true));
+    };
+  }, [enabled, stopDemo]);
+
+  // Leaving the READY screen ends the demo
+  useEffect(() => {
+    if (!enabled) setIsDemoRunning(false);
+  }, [enabled]);
+
+  // Play the next demo game after a short pause
+  useEffect(() => {
+    if (!isDemoRunning || demoData.gameState === 'PLAYING') return;
+
+    const timer = setTimeout(startDemoGame, DEMO_RESTART_DELAY);
+    return () => clearTimeout(timer);
+  }, [isDemoRunning, demoData.gameState, startDemoGame]);
+
+  const step = useCallback(() => {
+    dispatch({ type: 'TICK' });
+  }, []);
+
+  useGameLoop({
+    enabled: isDemoRunning && demoData.gameState === 'PLAYING',
+    stepMs: demoData.gameSpeed,
+    onStep: step,
+    onRender: interpolation.set,
+  });
+
+  // Heads sit in their cells between demo games
+  useEffect(() => {
+    if (demoData.gameState !== 'PLAYING') interpolation.set(1);
+  }, [demoData.gameState, interpolation]);
+
+  return {
+    demoData,
+    interpolation,
+    isDemoRunning,
+    stopDemo,
+  };
+}
@@ -1,274 +1,245 @@
 /**
  * Game Logic Hook
  * 
- * Main hook containing all game logic including snake movement,
- * collision detection, scoring, and game state management.
+ * Thin React adapter over the pure game engine. It drives the fixed-timestep
+ * game loop, dispatches engine actions and persists results to localStorage.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useReducer, useState, useEffect, useCallback, useRef } from 'react';
 import { 
   GameData, 
-  Direction, 
-  GameState, 
-  DEFAULT_GAME_CONFIG, 
-  INITIAL_GAME_DATA 
+  GameAction,
+  GameConfig,
+  BestRun,
+  GameHistoryEntry,
+  GameSetup,
+  LevelDefinition,
+  StageResult,
+  Direction,
+  InterpolationSource,
+  DEFAULT_GAME_SETUP,
+  DEFAULT_GAME_CONFIG
 } from '../types/game.types';
+import { getScoreCategory } from '../utils/gameHelpers';
 import { 
-  getNextPosition, 
-  isValidDirectionChange, 
-  checkWallCollision, 
-  checkSelfCollision, 
-  checkFoodCollision, 
-  generateFoodPosition, 
-  calculateGameSpeed,
-  getNextLevel 
-} from '../utils/gameHelpers';
-import { useBestScore, useGameStats, useAchievements } from './useLocalStorage';
+  gameReducer, 
+  createInitialGameData, 
+  DEFAULT_ENGINE_OPTIONS 
+} from '../engine/gameEngine';
+import { createSeed } from '../engine/random';
+import { createOpenLevel } from '../engine/builtinLevels';
+import { createReplay } from '../engine/replay';
+import { getConfigDifficulty } from '../engine/difficulty';
+import { GameEventBus, createGameEventBus, getGameEvents } from '../engine/gameEvents';
+import { useGameLoop } from './useGameLoop';
+import { createInterpolation } from './useInterpolation';
+import {
+  useBestScore,
+  useGameStats,
+  useAchievements,
+  useGameHistory,
+  useBestRuns,
+  useCampaignProgress
+} from './useLocalStorage';
 
 interface UseGameLogicReturn {
   gameData: GameData;
-  changeDirection: (direction: Direction) => void;
-  startGame: () => void;
+  interpolation: InterpolationSource; // Read by the board's heads, not re-rendered through the app
+  changeDirection: (direction: Direction, playerId?: number) => void;
+  startGame: (seed?: number) => void;
   pauseGame: () => void;
   resumeGame: () => void;
   resetGame: () => void;
   isGameOver: boolean;
+  isStageComplete: boolean;
   isPlaying: boolean;
   isPaused: boolean;
+  gameHistory: GameHistoryEntry[]; // Finished games with their replays, newest first
+  clearHistory: () => void;
+  bestRun: BestRun | null;   // Best run saved for this game's mode and seed
+  stageResults: Record<string, StageResult>; // Campaign progress, by stage id
+  events: GameEventBus;      // What happens in the game, for sound and other feedback
 }
 
+// Open board used when no map is given
+const DEFAULT_MAP = createOpenLevel(DEFAULT_ENGINE_OPTIONS.config);
+
 /**
- * Main game logic hook
+ * Main game logic hook. `setup`, `map` and `config` hold the options for the
+ * next game started, and are previewed on the board while the game is READY.
  */
-export function useGameLogic(): UseGameLogicReturn {
-  const [gameData, setGameData] = useState<GameData>(INITIAL_GAME_DATA);
-  const gameIntervalRef = useRef<NodeJS.Timeout | null>(null);
+export function useGameLogic(
+  setup: GameSetup = DEFAULT_GAME_SETUP,
+  map: LevelDefinition = DEFAULT_MAP,
+  config: GameConfig = DEFAULT_GAME_CONFIG
+): UseGameLogicReturn {
+  // Configuration of the current game, fixed from its start until the next
+  const [gameConfig, setGameConfig] = useState(config);
+
+  // Bind the engine reducer to the game's configuration for useReducer
+  const reducer = useCallback(
+    (state: GameData, action: GameAction): GameData => gameReducer(state, action, { config: gameConfig }),
+    [gameConfig]
+  );
+  const [gameData, dispatch] = useReducer(
+    reducer, 
+    undefined, 
+    () => createInitialGameData(config, 0, 0, setup, map)
+  );
+  const [interpolation] = useState(createInterpolation);
   const gameStartTimeRef = useRef<number>(0);
-  const lastMoveTimeRef = useRef<number>(0);
+  const gameRecordedRef = useRef(false);
+  const [events] = useState(createGameEventBus);
+  const previousDataRef = useRef(gameData);
 
-  const { bestScore, updateBestScore } = useBestScore();
-  const { updateStats } = useGameStats();
+  // A game that hasn't started yet previews the selected configuration
+  if (gameData.gameState === 'READY' && gameConfig !== config) {
+    setGameConfig(config);
+  }
 
-  // Update best score when it changes
-  useEffect(() => {
-    setGameData(prev => ({ ...prev, bestScore }));
-  }, [bestScore]);
+  // Scores are ranked per mode, map and difficulty
+  const difficulty = getConfigDifficulty(gameConfig);
+  const scoreCategory = getScoreCategory(gameData.setup, difficulty);
+  const { bestScore, updateBestScore } = useBestScore(scoreCategory);
+  const { updateStats } = useGameStats(gameData.setup.timeLimit, difficulty);
+  const { gameHistory, addGameToHistory, clearHistory } = useGameHistory();
+  const { updateBestRun, getBestRun } = useBestRuns();
+  const { stageResults, recordStageClear } = useCampaignProgress();
 
-  // Game loop - runs when game is playing
+  // Preview the selected options on the board (and configuration, once the reducer has it)
   useEffect(() => {
-    if (gameData.gameState === 'PLAYING' && !gameData.isPaused) {
-      const currentTime = Date.now();
-      const timeSinceLastMove = currentTime - lastMoveTimeRef.current;
-      
-      if (timeSinceLastMove >= gameData.gameSpeed) {
-        moveSnake();
-        lastMoveTimeRef.current = currentTime;
-      }
+    dispatch({ type: 'SETUP_GAME', payload: { setup, map } });
+  }, [setup, map, gameConfig]);
 
-      const gameInterval = setInterval(() => {
-        const now = Date.now();
-        const timeSinceLastMove = now - lastMoveTimeRef.current;
-        
-        if (timeSinceLastMove >= gameData.gameSpeed) {
-          moveSnake();
-          lastMoveTimeRef.current = now;
-        }
-      }, 16); // ~60fps check rate
+  // Tell subscribers what each new state brought
+  useEffect(() => {
+    getGameEvents(previousDataRef.current, gameData).forEach(events.emit);
+    previousDataRef.current = gameData;
+  }, [gameData, events]);
 
-      gameIntervalRef.current = gameInterval;
-      
-      return () => {
-        if (gameIntervalRef.current) {
-          clearInterval(gameIntervalRef.current);
-          gameIntervalRef.current = null;
-        }
-      };
-    }
-  }, [gameData.gameState, gameData.isPaused, gameData.gameSpeed]);
+  // Update best score when it changes
+  useEffect(() => {
+    dispatch({ type: 'UPDATE_BEST_SCORE', payload: bestScore });
+  }, [bestScore]);
 
-  // Move snake function
-  const moveSnake = useCallback(() => {
-    setGameData(prev => {
-      const { snake, food, score, level } = prev;
-      const currentDirection = snake.nextDirection;
-      
-      // Get new head position
-      const head = snake.segments[0];
-      const newHead = getNextPosition(head, currentDirection);
-      
-      // Check for collisions
-      if (checkWallCollision({ ...snake, direction: currentDirection }, DEFAULT_GAME_CONFIG.BOARD_SIZE)) {
-        return { ...prev, gameState: 'GAME_OVER' as GameState };
-      }
-      
-      if (checkSelfCollision({ ...snake, direction: currentDirection })) {
-        return { ...prev, gameState: 'GAME_OVER' as GameState };
-      }
-      
-      // Check if food is eaten
-      const ateFood = checkFoodCollision({ ...snake, direction: currentDirection }, food);
-      
-      let newSnake = { ...snake };
-      let newScore = score;
-      let newLevel = level;
-      let newFood = food;
-      
-      if (ateFood) {
-        // Grow snake by adding new head (don't remove tail)
-        newSnake = {
-          ...snake,
-          segments: [newHead, ...snake.segments],
-          direction: currentDirection,
-          nextDirection: currentDirection,
-        };
-        
-        // Update score and level
-        newScore = score + DEFAULT_GAME_CONFIG.POINTS_PER_FOOD;
-        newLevel = getNextLevel(newScore, DEFAULT_GAME_CONFIG.LEVEL_UP_SCORE);
-        
-        // Generate new food
-        newFood = generateFoodPosition(newSnake, DEFAULT_GAME_CONFIG.BOARD_SIZE);
-      } else {
-        // Move snake normally (add new head, remove tail)
-        newSnake = {
-          ...snake,
-          segments: [newHead, ...snake.segments.slice(0, -1)],
-          direction: currentDirection,
-          nextDirection: currentDirection,
-        };
-      }
-      
-      // Calculate new game speed
-      const newGameSpeed = calculateGameSpeed(newLevel, DEFAULT_GAME_CONFIG);
-      
-      return {
-        ...prev,
-        snake: newSnake,
-        food: newFood,
-        score: newScore,
-        level: newLevel,
-        gameSpeed: newGameSpeed,
-      };
-    });
+  // Advance the engine by one fixed step
+  const step = useCallback(() => {
+    dispatch({ type: 'TICK' });
   }, []);
 
-  // Change snake direction
-  const changeDirection = useCallback((newDirection: Direction) => {
-    setGameData(prev => {
-      if (prev.gameState !== 'PLAYING' || prev.isPaused) return prev;
-      
-      const { snake } = prev;
-      
-      // Validate direction change
-      if (!isValidDirectionChange(snake.direction, newDirection)) {
-        return prev;
-      }
-      
-      return {
-        ...prev,
-        snake: {
-          ...snake,
-          nextDirection: newDirection,
-        },
-      };
-    });
-  }, []);
+  // Game loop - runs when game is playing, speed changes apply without a restart
+  useGameLoop({
+    enabled: gameData.gameState === 'PLAYING' && !gameData.isPaused,
+    stepMs: gameData.gameSpeed,
+    onStep: step,
+    onRender: interpolation.set,
+  });
 
-  // Start game
-  const startGame = useCallback(() => {
-    setGameData(prev => {
-      if (prev.gameState === 'READY' || prev.gameState === 'GAME_OVER') {
-        gameStartTimeRef.current = Date.now();
-        lastMoveTimeRef.current = Date.now();
-        return {
-          ...INITIAL_GAME_DATA,
-          bestScore: prev.bestScore,
-          gameState: 'PLAYING' as GameState,
-        };
-      }
-      return prev;
-    });
+  // Heads sit in their cells once the game stops
+  useEffect(() => {
+    if (gameData.gameState !== 'PLAYING') interpolation.set(1);
+  }, [gameData.gameState, interpolation]);
+
+  // Change a snake's direction (player 1 unless another player is given)
+  const changeDirection = useCallback((newDirection: Direction, playerId: number = 0) => {
+    dispatch({ type: 'CHANGE_DIRECTION', payload: { playerId, direction: newDirection } });
   }, []);
 
+  // Start game (a random seed is picked when none is given)
+  const startGame = useCallback((seed?: number) => {
+    if (gameData.gameState === 'READY' || gameData.gameState === 'STAGE_COMPLETE' || gameData.gameState === 'GAME_OVER') {
+      gameStartTimeRef.current = Date.now();
+    }
+    setGameConfig(config);
+    dispatch({ type: 'START_GAME', payload: { seed: seed ?? createSeed(), setup, map } });
+  }, [gameData.gameState, setup, map, config]);
+
   // Pause game
   const pauseGame = useCallback(() => {
-    setGameData(prev => {
-      if (prev.gameState === 'PLAYING') {
-        return { ...prev, isPaused: true };
-      }
-      return prev;
-    });
+    dispatch({ type: 'PAUSE_GAME' });
   }, []);
 
   // Resume game
   const resumeGame = useCallback(() => {
-    setGameData(prev => {
-      if (prev.gameState === 'PLAYING' && prev.isPaused) {
-        lastMoveTimeRef.current = Date.now();
-        return { ...prev, isPaused: false };
-      }
-      return prev;
-    });
+    dispatch({ type: 'RESUME_GAME' });
   }, []);
 
   // Reset game
   const resetGame = useCallback(() => {
-    if (gameIntervalRef.current) {
-      clearInterval(gameIntervalRef.current);
-      gameIntervalRef.current = null;
-    }
-    
-    setGameData(prev => ({
-      ...INITIAL_GAME_DATA,
-      bestScore: prev.bestScore,
-    }));
+    dispatch({ type: 'RESET_GAME' });
   }, []);
 
-  // Handle game over
+  const longestSnake = Math.max(...gameData.players.map(player => player.snake.segments.length));
+
+  // Handle game over or a cleared stage (once per game, however often the storage hooks change)
   useEffect(() => {
-    if (gameData.gameState === 'GAME_OVER') {
-      // Update best score
-      updateBestScore(gameData.score);
-      
-      // Update game statistics
-      const playTime = gameStartTimeRef.current > 0 ? 
-        Math.floor((Date.now() - gameStartTimeRef.current) / 1000) : 0;
-      
-      updateStats({
-        totalGamesPlayed: 1,
-        totalScore: gameData.score,
-        longestSnake: Math.max(gameData.snake.segments.length, 0),
-        bestLevel: Math.max(gameData.level, 1),
-        playTime: playTime,
-      });
-      
-      // Clear interval
-      if (gameIntervalRef.current) {
-        clearInterval(gameIntervalRef.current);
-        gameIntervalRef.current = null;
-      }
+    if (gameData.gameState !== 'GAME_OVER' && gameData.gameState !== 'STAGE_COMPLETE') {
+      gameRecordedRef.current = false;
+      return;
     }
-  }, [gameData.gameState, gameData.score, gameData.snake.segments.length, gameData.level, updateBestScore, updateStats]);
+    if (gameRecordedRef.current) return;
+    gameRecordedRef.current = true;
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (gameIntervalRef.current) {
-        clearInterval(gameIntervalRef.current);
-      }
-    };
-  }, []);
+    // Update best score
+    updateBestScore(gameData.score);
+    
+    // Update game statistics
+    const playTime = gameStartTimeRef.current > 0 ? 
+      Math.floor((Date.now() - gameStartTimeRef.current) / 1000) : 0;
+    
+    updateStats({
+      totalGamesPlayed: 1,
+      totalScore: gameData.score,
+      longestSnake,
+      bestLevel: Math.max(gameData.level, 1),
+      playTime: playTime,
+    });
+
+    // Keep the game and its replay in the history, and as the seed's best run if it beat it
+    const replay = createReplay(gameData, gameConfig);
+    addGameToHistory({
+      score: gameData.score,
+      level: gameData.level,
+      snakeLength: longestSnake,
+      playTime,
+      date: new Date().toISOString(),
+      replay,
+    });
+    updateBestRun({ category: scoreCategory, score: gameData.score, replay });
+
+    // A cleared stage unlocks the next one
+    if (gameData.gameState === 'STAGE_COMPLETE' && gameData.setup.stageId) {
+      recordStageClear(gameData.setup.stageId, gameData.score, gameData.timePlayed);
+    }
+  }, [
+    gameData,
+    gameConfig,
+    longestSnake,
+    scoreCategory,
+    updateBestScore,
+    updateStats,
+    addGameToHistory,
+    updateBestRun,
+    recordStageClear,
+  ]);
 
   return {
     gameData,
+    interpolation,
     changeDirection,
     startGame,
     pauseGame,
     resumeGame,
     resetGame,
     isGameOver: gameData.gameState === 'GAME_OVER',
+    isStageComplete: gameData.gameState === 'STAGE_COMPLETE',
     isPlaying: gameData.gameState === 'PLAYING' && !gameData.isPaused,
     isPaused: gameData.isPaused,
+    gameHistory,
+    clearHistory,
+    bestRun: getBestRun(scoreCategory, gameData.seed),
+    stageResults,
+    events,
   };
 }
 
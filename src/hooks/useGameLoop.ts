@@ -0,0 +1,70 @@
+/**
+ * Game Loop Hook
+ *
+ * Fixed-timestep scheduler driven by requestAnimationFrame. Elapsed time is
+ * collected in an accumulator and spent in whole steps of `stepMs`, so the
+ * game advances at the same rate regardless of frame rate. The remainder is
+ * reported to the renderer as an interpolation alpha between 0 and 1.
+ */
+
+import { useEffect, useRef } from 'react';
+
+interface UseGameLoopOptions {
+  enabled: boolean;              // Whether the loop should be running
+  stepMs: number;                // Length of one fixed step, may change while running
+  onStep: () => void;            // Advance the simulation by one step
+  onRender?: (alpha: number) => void; // Called once per frame with the interpolation alpha
+  maxCatchUpMs?: number;         // Most elapsed time simulated in a single frame
+}
+
+/**
+ * Hook that runs a fixed-timestep loop while enabled
+ */
+export function useGameLoop({
+  enabled,
+  stepMs,
+  onStep,
+  onRender,
+  maxCatchUpMs = 250,
+}: UseGameLoopOptions) {
+  // Keep the latest values in refs so changes don't restart the loop
+  const stepMsRef = useRef(stepMs);
+  const onStepRef = useRef(onStep);
+  const onRenderRef = useRef(onRender);
+
+  useEffect(() => {
+    stepMsRef.current = stepMs;
+    onStepRef.current = onStep;
+    onRenderRef.current = onRender;
+  }, [stepMs, onStep, onRender]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let frameId = 0;
+    let lastTime: number | null = null;
+    let accumulator = 0;
+
+    const frame = (time: number) => {
+      if (lastTime !== null) {
+        // Clamp long gaps (throttled tabs, debugger pauses) to the catch-up budget
+        accumulator += Math.min(time - lastTime, maxCatchUpMs);
+
+        while (accumulator >= stepMsRef.current) {
+          accumulator -= stepMsRef.current;
+          onStepRef.current();
+        }
+      }
+      lastTime = time;
+
+      onRenderRef.current?.(Math.min(accumulator / stepMsRef.current, 1));
+      frameId = requestAnimationFrame(frame);
+    };
+
+    frameId = requestAnimationFrame(frame);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+    };
+  }, [enabled, maxCatchUpMs]);
+}
@@ -0,0 +1,45 @@
+/**
+ * Ghost Race Hook
+ *
+ * Plays the best run saved for a seed alongside a live game on that seed,
+ * keeping the ghost at the same tick as the game so the two can be compared
+ * step for step.
+ */
+
+import { useState } from 'react';
+import { BestRun, GameData, Replay } from '../types/game.types';
+import { REPLAY_VERSION, startReplay, stepReplay } from '../engine/replay';
+
+interface GhostFrame {
+  replay: Replay;
+  state: GameData;
+}
+
+/**
+ * Hook returning the ghost's game state at the live game's tick, or null when
+ * there is no best run to race (or the live game isn't running)
+ */
+export function useGhostRace(gameData: GameData, bestRun: BestRun | null): GameData | null {
+  const [frame, setFrame] = useState<GhostFrame | null>(null);
+
+  const replay = bestRun?.replay;
+  const isRacing = gameData.gameState === 'PLAYING' &&
+    replay !== undefined &&
+    replay.version === REPLAY_VERSION &&
+    replay.seed === gameData.seed;
+  if (!isRacing) return null;
+
+  // Catch the ghost up with the game, starting over for a new game or best run
+  let next = frame;
+  if (!next || next.replay !== replay || next.state.tickCount > gameData.tickCount) {
+    next = { replay, state: startReplay(replay) };
+  }
+  let state = next.state;
+  while (state.tickCount < gameData.tickCount && state.gameState === 'PLAYING') {
+    state = stepReplay(state, replay);
+  }
+  if (state !== next.state) next = { replay, state };
+  if (next !== frame) setFrame(next);
+
+  return next.state;
+}
@@ -0,0 +1,45 @@
+/**
+ * Interpolation Hook
+ *
+ * The game loop reports an interpolation alpha every animation frame. It's
+ * kept in a small store rather than React state, so a frame only re-renders
+ * what subscribes to it (the snakes' heads) instead of the whole app.
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { InterpolationSource } from '../types/game.types';
+
+/**
+ * Create an interpolation store, starting at 1 (the current step, in place)
+ */
+export const createInterpolation = (): InterpolationSource => {
+  let alpha = 1;
+  const listeners = new Set<() => void>();
+
+  return {
+    get: () => alpha,
+    set: (value) => {
+      if (value === alpha) return;
+      alpha = value;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+/**
+ * Read an interpolation alpha, re-rendering as it changes; 1 without a source
+ */
+export function useInterpolation(source?: InterpolationSource): number {
+  const subscribe = useCallback(
+    (listener: () => void) => source?.subscribe(listener) ?? (() => {}),
+    [source]
+  );
+  const getAlpha = useCallback(() => source?.get() ?? 1, [source]);
+  return useSyncExternalStore(subscribe, getAlpha);
+}
@@ -1,13 +1,14 @@
 /**
  * Keyboard Input Hook
  * 
- * Custom hook for handling keyboard input with proper event management,
- * debouncing, and mobile-friendly touch event support.
+ * Custom hook for handling keyboard input with proper event management
+ * and mobile-friendly touch event support. Direction keys are forwarded
+ * immediately; the game engine buffers and validates the turns. In
+ * two-player mode WASD steers player 1 and the arrow keys player 2.
  */
 
 import { useEffect, useCallback, useRef } from 'react';
 import { Direction, DirectionChangeHandler } from '../types/game.types';
-import { debounce, throttle } from '../utils/gameHelpers';
 
 interface UseKeyboardInputOptions {
   onDirectionChange: DirectionChangeHandler;
@@ -15,10 +16,23 @@ interface UseKeyboardInputOptions {
   onStart?: () => void;
   onReset?: () => void;
   enabled?: boolean;
-  debounceMs?: number;
-  throttleMs?: number;
+  twoPlayer?: boolean;       // Arrow keys steer player 2 instead of player 1
 }
 
+const ARROW_KEYS: Record<string, Direction> = {
+  ArrowUp: 'UP',
+  ArrowDown: 'DOWN',
+  ArrowLeft: 'LEFT',
+  ArrowRight: 'RIGHT',
+};
+
+const WASD_KEYS: Record<string, Direction> = {
+  w: 'UP',
+  s: 'DOWN',
+  a: 'LEFT',
+  d: 'RIGHT',
+};
+
 /**
  * Hook for handling keyboard input with direction changes and game controls
  */
@@ -28,37 +42,15 @@ export function useKeyboardInput({
   onStart,
   onReset,
   enabled = true,
-  debounceMs = 100,
-  throttleMs = 50,
+  twoPlayer = false,
 }: UseKeyboardInputOptions) {
   const isEnabled = useRef(enabled);
-  const lastKeyTime = useRef(0);
 
   // Update enabled state
   useEffect(() => {
     isEnabled.current = enabled;
   }, [enabled]);
 
-  // Debounced direction change handler
-  const debouncedDirectionChange = useCallback(
-    debounce((direction: Direction) => {
-      if (isEnabled.current) {
-        onDirectionChange(direction);
-      }
-    }, debounceMs),
-    [onDirectionChange, debounceMs]
-  );
-
-  // Throttled direction change handler for rapid key presses
-  const throttledDirectionChange = useCallback(
-    throttle((direction: Direction) => {
-      if (isEnabled.current) {
-        onDirectionChange(direction);
-      }
-    }, throttleMs),
-    [onDirectionChange, throttleMs]
-  );
-
   // Handle keyboard events
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     if (!isEnabled.current) return;
@@ -69,34 +61,20 @@ export function useKeyboardInput({
       event.preventDefault();
     }
 
-    const currentTime = Date.now();
-    const timeSinceLastKey = currentTime - lastKeyTime.current;
-    lastKeyTime.current = currentTime;
+    // WASD always steers player 1, the arrows steer player 2 in two-player mode
+    const arrowDirection = ARROW_KEYS[event.key];
+    if (arrowDirection) {
+      onDirectionChange(arrowDirection, twoPlayer ? 1 : 0);
+      return;
+    }
 
-    // Use throttled handler for rapid key presses, debounced for normal use
-    const directionHandler = timeSinceLastKey < 100 ? throttledDirectionChange : debouncedDirectionChange;
+    const wasdDirection = WASD_KEYS[event.key.toLowerCase()];
+    if (wasdDirection) {
+      onDirectionChange(wasdDirection, 0);
+      return;
+    }
 
     switch (event.key) {
-      case 'ArrowUp':
-      case 'w':
-      case 'W':
-        directionHandler('UP');
-        break;
-      case 'ArrowDown':
-      case 's':
-      case 'S':
-        directionHandler('DOWN');
-        break;
-      case 'ArrowLeft':
-      case 'a':
-      case 'A':
-        directionHandler('LEFT');
-        break;
-      case 'ArrowRight':
-      case 'd':
-      case 'D':
-        directionHandler('RIGHT');
-        break;
       case ' ':
       case 'Escape':
         onPause?.();
@@ -109,7 +87,7 @@ export function useKeyboardInput({
         onReset?.();
         break;
     }
-  }, [debouncedDirectionChange, throttledDirectionChange, onPause, onStart, onReset]);
+  }, [onDirectionChange, onPause, onStart, onReset, twoPlayer]);
 
   // Set up keyboard event listeners
   useEffect(() => {
@@ -292,12 +270,14 @@ export function useGameInput({
   onStart,
   onReset,
   enabled = true,
+  twoPlayer = false,
 }: {
   onDirectionChange: DirectionChangeHandler;
   onPause?: () => void;
   onStart?: () => void;
   onReset?: () => void;
   enabled?: boolean;
+  twoPlayer?: boolean;
 }) {
   const keyboardInput = useKeyboardInput({
     onDirectionChange,
@@ -305,6 +285,7 @@ export function useGameInput({
     onStart,
     onReset,
     enabled,
+    twoPlayer,
   });
 
   useTouchInput({
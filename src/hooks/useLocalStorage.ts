@@ -6,6 +6,29 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
+import {
+  BestRun,
+  Difficulty,
+  GameHistoryEntry,
+  GameSettings,
+  LevelDefinition,
+  StageResult,
+  DEFAULT_GAME_SETTINGS
+} from '../types/game.types';
+import { isValidConfig } from '../engine/difficulty';
+
+/**
+ * Read a value from localStorage, falling back to the initial value
+ */
+function readStorageValue<T>(key: string, initialValue: T): T {
+  try {
+    const item = window.localStorage.getItem(key);
+    return item ? JSON.parse(item) : initialValue;
+  } catch (error) {
+    console.warn(`Error reading localStorage key "${key}":`, error);
+    return initialValue;
+  }
+}
 
 /**
  * Generic hook for localStorage with type safety
@@ -15,26 +38,28 @@ export function useLocalStorage<T>(
   initialValue: T
 ): [T, (value: T | ((val: T) => T)) => void, () => void] {
   // Get value from localStorage or use initial value
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.warn(`Error reading localStorage key "${key}":`, error);
-      return initialValue;
-    }
-  });
+  const [storedKey, setStoredKey] = useState(key);
+  const [storedValue, setStoredValue] = useState<T>(() => readStorageValue(key, initialValue));
+
+  // Re-read when the key changes (e.g. scores for another game mode)
+  if (storedKey !== key) {
+    setStoredKey(key);
+    setStoredValue(readStorageValue(key, initialValue));
+  }
 
   // Update localStorage when state changes
+  // Functional updates get the latest value, so several in one tick chain
   const setValue = useCallback((value: T | ((val: T) => T)) => {
-    try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      window.localStorage.setItem(key, JSON.stringify(valueToStore));
-    } catch (error) {
-      console.error(`Error setting localStorage key "${key}":`, error);
-    }
-  }, [key, storedValue]);
+    setStoredValue(prev => {
+      const valueToStore = value instanceof Function ? value(prev) : value;
+      try {
+        window.localStorage.setItem(key, JSON.stringify(valueToStore));
+      } catch (error) {
+        console.error(`Error setting localStorage key "${key}":`, error);
+      }
+      return valueToStore;
+    });
+  }, [key]);
 
   // Remove item from localStorage
   const removeValue = useCallback(() => {
@@ -66,10 +91,15 @@ export function useLocalStorage<T>(
 }
 
 /**
- * Hook specifically for game statistics
+ * Hook specifically for game statistics, kept separately per time-attack length
  */
-export function useGameStats() {
-  const [gameStats, setGameStats] = useLocalStorage('snake-game-stats', {
+export function useGameStats(timeLimit?: number, difficulty: Difficulty = 'normal') {
+  const key = [
+    'snake-game-stats',
+    ...(timeLimit ? [`timed${timeLimit}`] : []),
+    ...(difficulty !== 'normal' ? [difficulty] : []),
+  ].join('-');
+  const [gameStats, setGameStats] = useLocalStorage(key, {
     totalGamesPlayed: 0,
     totalScore: 0,
     averageScore: 0,
@@ -104,10 +134,11 @@ export function useGameStats() {
 }
 
 /**
- * Hook for managing best score
+ * Hook for managing best score, kept separately per score category
  */
-export function useBestScore() {
-  const [bestScore, setBestScore] = useLocalStorage('snake-game-best-score', 0);
+export function useBestScore(category: string = 'classic') {
+  const key = category === 'classic' ? 'snake-game-best-score' : `snake-game-best-score-${category}`;
+  const [bestScore, setBestScore] = useLocalStorage(key, 0);
 
   const updateBestScore = useCallback((newScore: number) => {
     if (newScore > bestScore) {
@@ -124,19 +155,32 @@ export function useBestScore() {
  * Hook for managing game settings
  */
 export function useGameSettings() {
-  const [settings, setSettings] = useLocalStorage('snake-game-settings', {
-    soundEnabled: true,
-    showGrid: true,
-    showAnimations: true,
-    difficulty: 'normal' as 'easy' | 'normal' | 'hard',
-    theme: 'dark' as 'dark' | 'light',
-  });
+  const [storedSettings, setSettings] = useLocalStorage<GameSettings>('snake-game-settings', DEFAULT_GAME_SETTINGS);
+
+  // Settings saved by older versions lack newer fields
+  const settings: GameSettings = {
+    ...DEFAULT_GAME_SETTINGS,
+    ...storedSettings,
+    volume: { ...DEFAULT_GAME_SETTINGS.volume, ...storedSettings.volume },
+    customConfig: isValidConfig(storedSettings.customConfig)
+      ? storedSettings.customConfig
+      : DEFAULT_GAME_SETTINGS.customConfig,
+  };
 
-  const updateSetting = useCallback((key: keyof typeof settings, value: any) => {
+  const updateSetting = useCallback(<K extends keyof GameSettings>(key: K, value: GameSettings[K]) => {
     setSettings(prev => ({ ...prev, [key]: value }));
   }, [setSettings]);
 
-  return { settings, updateSetting };
+  // Change several settings at once
+  const updateSettings = useCallback((changes: Partial<GameSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  }, [setSettings]);
+
+  const resetSettings = useCallback(() => {
+    setSettings(DEFAULT_GAME_SETTINGS);
+  }, [setSettings]);
+
+  return { settings, updateSetting, updateSettings, resetSettings };
 }
 
 /**
@@ -166,24 +210,12 @@ export function useAchievements() {
 }
 
 /**
- * Hook for managing game history
+ * Hook for managing game history, with each game's replay
  */
 export function useGameHistory() {
-  const [gameHistory, setGameHistory] = useLocalStorage<Array<{
-    score: number;
-    level: number;
-    snakeLength: number;
-    playTime: number;
-    date: string;
-  }>>('snake-game-history', []);
-
-  const addGameToHistory = useCallback((gameData: {
-    score: number;
-    level: number;
-    snakeLength: number;
-    playTime: number;
-    date: string;
-  }) => {
+  const [gameHistory, setGameHistory] = useLocalStorage<GameHistoryEntry[]>('snake-game-history', []);
+
+  const addGameToHistory = useCallback((gameData: GameHistoryEntry) => {
     setGameHistory(prev => {
       const newHistory = [gameData, ...prev].slice(0, 50); // Keep only last 50 games
       return newHistory;
@@ -196,3 +228,67 @@ export function useGameHistory() {
 
   return { gameHistory, addGameToHistory, clearHistory };
 }
+
+/**
+ * Hook for managing the best run on each seed, per score category
+ */
+export function useBestRuns() {
+  const [bestRuns, setBestRuns] = useLocalStorage<BestRun[]>('snake-game-best-runs', []);
+
+  // Keep a run when it beats the saved one for its category and seed
+  const updateBestRun = useCallback((run: BestRun) => {
+    setBestRuns(prev => {
+      const saved = prev.find(best => best.category === run.category && best.replay.seed === run.replay.seed);
+      if (saved && saved.score >= run.score) return prev;
+      return [run, ...prev.filter(best => best !== saved)].slice(0, 50); // Keep only the last 50 seeds
+    });
+  }, [setBestRuns]);
+
+  const getBestRun = useCallback((category: string, seed: number) => {
+    return bestRuns.find(best => best.category === category && best.replay.seed === seed) ?? null;
+  }, [bestRuns]);
+
+  return { bestRuns, updateBestRun, getBestRun };
+}
+
+/**
+ * Hook for managing campaign progress: the best results of every cleared stage
+ */
+export function useCampaignProgress() {
+  const [stageResults, setStageResults] = useLocalStorage<Record<string, StageResult>>('snake-game-campaign', {});
+
+  // Record a clear, keeping the best score and the fastest time separately
+  const recordStageClear = useCallback((stageId: string, score: number, time: number) => {
+    setStageResults(prev => {
+      const saved = prev[stageId];
+      return {
+        ...prev,
+        [stageId]: saved
+          ? { bestScore: Math.max(saved.bestScore, score), bestTime: Math.min(saved.bestTime, time) }
+          : { bestScore: score, bestTime: time },
+      };
+    });
+  }, [setStageResults]);
+
+  return { stageResults, recordStageClear };
+}
+
+/**
+ * Hook for managing levels made in the level editor
+ */
+export function useCustomLevels() {
+  const [customLevels, setCustomLevels] = useLocalStorage<LevelDefinition[]>('snake-game-custom-levels', []);
+
+  const saveLevel = useCallback((level: LevelDefinition) => {
+    setCustomLevels(prev => {
+      const exists = prev.some(saved => saved.id === level.id);
+      return exists ? prev.map(saved => (saved.id === level.id ? level : saved)) : [...prev, level];
+    });
+  }, [setCustomLevels]);
+
+  const deleteLevel = useCallback((levelId: string) => {
+    setCustomLevels(prev => prev.filter(saved => saved.id !== levelId));
+  }, [setCustomLevels]);
+
+  return { customLevels, saveLevel, deleteLevel };
+}
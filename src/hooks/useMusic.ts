@@ -0,0 +1,53 @@
+/**
+ * Music Hook
+ *
+ * Plays the background music while a game runs: its tempo follows the
+ * game's speed, it's muffled while the game is paused, and a game over
+ * stops it with a sting.
+ */
+
+import { useState, useEffect } from 'react';
+import { GameState } from '../types/game.types';
+import { GameEventBus } from '../engine/gameEvents';
+import { createMusicPlayer, getMusicTempo } from '../audio/music';
+
+interface UseMusicOptions {
+  events: GameEventBus;
+  enabled: boolean;          // Music turned on in the settings
+  gameState: GameState;
+  isPaused: boolean;
+  gameSpeed: number;         // Current step length in ms
+}
+
+/**
+ * Hook that plays music along with the game
+ */
+export function useMusic({ events, enabled, gameState, isPaused, gameSpeed }: UseMusicOptions): void {
+  const [player] = useState(createMusicPlayer);
+
+  const isRunning = enabled && gameState === 'PLAYING';
+
+  // Follow the game's speed; level-ups glide to the new tempo
+  useEffect(() => {
+    player.setTempo(getMusicTempo(gameSpeed));
+  }, [player, gameSpeed]);
+
+  useEffect(() => {
+    player.setMuffled(isPaused);
+  }, [player, isPaused]);
+
+  // Play while a game runs, and stop when it ends or the hook goes away
+  useEffect(() => {
+    if (!isRunning) return;
+    player.start();
+    return () => player.stop();
+  }, [player, isRunning]);
+
+  // A lost game ends the music with a sting
+  useEffect(() => {
+    if (!enabled) return;
+    return events.subscribe(event => {
+      if (event.type === 'GAME_OVER') player.playSting();
+    });
+  }, [events, enabled, player]);
+}
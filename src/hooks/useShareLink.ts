@@ -0,0 +1,56 @@
+/**
+ * Share Link Hook
+ *
+ * Opens replay and challenge links. A share code is read from the page URL
+ * (the `share` query parameter or a `#share=` hash) when the app loads and
+ * whenever the hash changes, then removed from the address bar so a reload
+ * doesn't open it again.
+ */
+
+import { useEffect, useRef } from 'react';
+import { ParseResult, SharedGame } from '../types/game.types';
+import { decodeShareCode, encodeShareCode } from '../engine/shareCodes';
+
+const SHARE_PARAM = 'share';
+
+// Share code in the current URL, if there is one
+const readShareCode = (): string | null => {
+  const { search, hash } = window.location;
+  return new URLSearchParams(search).get(SHARE_PARAM) ?? new URLSearchParams(hash.slice(1)).get(SHARE_PARAM);
+};
+
+/**
+ * Build a link to this page that opens a shared replay or challenge
+ */
+export const createShareLink = (shared: SharedGame): string => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = `${SHARE_PARAM}=${encodeShareCode(shared)}`;
+  return url.toString();
+};
+
+/**
+ * Hook that calls `onShared` with the decoded share code (or the reason it
+ * couldn't be read) whenever a share link is opened
+ */
+export function useShareLink(onShared: (result: ParseResult<SharedGame>) => void) {
+  const onSharedRef = useRef(onShared);
+
+  useEffect(() => {
+    onSharedRef.current = onShared;
+  }, [onShared]);
+
+  useEffect(() => {
+    const openShareCode = () => {
+      const code = readShareCode();
+      if (code === null) return;
+
+      window.history.replaceState(null, '', window.location.pathname);
+      onSharedRef.current(decodeShareCode(code));
+    };
+
+    openShareCode();
+    window.addEventListener('hashchange', openShareCode);
+    return () => window.removeEventListener('hashchange', openShareCode);
+  }, []);
+}
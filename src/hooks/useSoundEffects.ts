@@ -0,0 +1,73 @@
+/**
+ * Sound Effects Hook
+ *
+ * Plays the game's sound effects: subscribes to the game's events and
+ * keeps the mixer's volumes in step with the settings. Audio starts on the
+ * first input, as browsers require.
+ */
+
+import { useEffect, useCallback } from 'react';
+import { AudioVolumes, GameEvent, SoundEffect } from '../types/game.types';
+import { GameEventBus } from '../engine/gameEvents';
+import { isAudioUnlocked, setAudioVolumes, unlockAudio } from '../audio/audioEngine';
+import { playSoundEffect } from '../audio/soundEffects';
+
+interface UseSoundEffectsOptions {
+  events: GameEventBus;
+  enabled: boolean;          // Sound turned on in the settings
+  volume: AudioVolumes;
+}
+
+// Sound played for each game event
+const EVENT_SOUNDS: Record<GameEvent['type'], SoundEffect> = {
+  FOOD_EATEN: 'EAT',
+  LEVEL_UP: 'LEVEL_UP',
+  NEW_BEST: 'NEW_BEST',
+  PAUSED: 'PAUSE',
+  RESUMED: 'RESUME',
+  STAGE_CLEAR: 'LEVEL_UP',
+  GAME_OVER: 'GAME_OVER',
+};
+
+// Inputs browsers accept for starting audio
+const UNLOCK_EVENTS = ['keydown', 'pointerdown', 'touchstart'] as const;
+
+/**
+ * Hook that plays sound effects for game events, and returns a function to
+ * play one directly (for menu navigation)
+ */
+export function useSoundEffects({ events, enabled, volume }: UseSoundEffectsOptions) {
+  const { master, effects, interface: interfaceVolume, music } = volume;
+
+  // Muting silences the mixer as well, for sounds already playing
+  useEffect(() => {
+    setAudioVolumes({ master: enabled ? master : 0, effects, interface: interfaceVolume, music });
+  }, [enabled, master, effects, interfaceVolume, music]);
+
+  // Start audio on the first input, then stop listening
+  useEffect(() => {
+    if (!enabled) return;
+
+    const removeListeners = () => {
+      UNLOCK_EVENTS.forEach(type => window.removeEventListener(type, handleInput, true));
+    };
+    const handleInput = () => {
+      unlockAudio();
+      if (isAudioUnlocked()) removeListeners();
+    };
+
+    UNLOCK_EVENTS.forEach(type => window.addEventListener(type, handleInput, true));
+    return removeListeners;
+  }, [enabled]);
+
+  const playSound = useCallback((effect: SoundEffect) => {
+    if (enabled) playSoundEffect(effect);
+  }, [enabled]);
+
+  // Play the sound for each game event
+  useEffect(() => {
+    return events.subscribe(event => playSound(EVENT_SOUNDS[event.type]));
+  }, [events, playSound]);
+
+  return { playSound };
+}
@@ -11,15 +11,135 @@ export type Position = {
   y: number;
 };
 
+// Board dimensions in cells
+export type BoardDimensions = {
+  width: number;
+  height: number;
+};
+
 // Direction enum for snake movement
 export type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
 
+// Random source returning values in [0, 1)
+export type RandomSource = () => number;
+
+// Board edge behaviour: solid walls or wrap-around portals
+export type BoardTopology = 'WALLS' | 'WRAP';
+
+// Who plays: one snake, or two snakes sharing one keyboard
+export type GameMode = 'SOLO' | 'VERSUS';
+
+// How cleverly a bot picks its moves: straight at the food, along a safe
+// path to it, or only along paths that leave it room to survive
+export type BotDifficulty = 'GREEDY' | 'SAFE_PATH' | 'SURVIVAL';
+
+// Options chosen before a game starts, recorded with its score
+export interface GameSetup {
+  mode: GameMode;
+  bots: number;              // Computer-controlled snakes added to the game
+  botDifficulty: BotDifficulty;
+  practice: boolean;         // Show hints; scores are ranked separately
+  topology: BoardTopology;
+  mapId: string;             // Id of the LevelDefinition played on
+  timeLimit?: number;        // Seconds on the time-attack clock; endless when missing
+  stageId?: string;          // Campaign stage being played, see CAMPAIGN_STAGES
+}
+
+// Static board layout, usually parsed from the plain-text level format
+export interface LevelDefinition {
+  id: string;
+  name: string;
+  width: number;             // Board columns
+  height: number;            // Board rows
+  walls: Position[];         // Cells blocked by static walls
+  foodSpawns: Position[];    // Fixed food spawn cells (empty means anywhere)
+  start: Position;           // Head position of the starting snake
+  startDirection: Direction; // Initial heading, the body trails behind it
+}
+
+// What a campaign stage asks of the player
+export type StageGoal =
+  | { kind: 'FOOD'; count: number }      // Eat this many pieces of food
+  | { kind: 'LENGTH'; length: number }   // Grow the snake to this length
+  | { kind: 'SURVIVE'; seconds: number }; // Stay alive this long
+
+// An authored campaign stage, played solo on its own board
+export interface CampaignStage {
+  id: string;
+  map: LevelDefinition;      // Board and obstacles; the map id is the stage id
+  speed: number;             // Step length in ms for the whole stage
+  goal: StageGoal;
+}
+
+// Best results on a cleared campaign stage
+export interface StageResult {
+  bestScore: number;
+  bestTime: number;          // Fastest clear, in milliseconds played
+}
+
+// Result of parsing or validating external input
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+// Kinds of food that can appear on the board
+export type FoodKind = 'NORMAL' | 'BONUS' | 'SHRINK' | 'POISON';
+
+// A single piece of food on the board
+export interface Food {
+  kind: FoodKind;
+  position: Position;
+  ticksLeft: number | null;  // Ticks until it disappears, null never expires
+}
+
+// Rules for one kind of food
+export interface FoodTypeDefinition {
+  kind: FoodKind;
+  name: string;
+  scoreMultiplier: number;   // Points as a multiple of POINTS_PER_FOOD (negative costs points)
+  growth: number;            // Segments gained (negative removes tail segments)
+  lifetime: number | null;   // Ticks before it disappears, null never expires
+  spawnChance: number;       // Chance to appear each time normal food is eaten
+  minLevel: number;          // First level it can appear on
+  minHeadDistance: number;   // Closest it may spawn to the snake's head (in moves)
+}
+
+// Kinds of collectible power-ups
+export type PowerUpKind = 'GHOST' | 'SLOW_MOTION' | 'MAGNET' | 'DOUBLE_SCORE';
+
+// A power-up waiting on the board to be collected
+export interface PowerUp {
+  kind: PowerUpKind;
+  position: Position;
+  ticksLeft: number;         // Ticks until it disappears from the board
+}
+
+// A collected power-up whose effect is running
+export interface ActiveEffect {
+  kind: PowerUpKind;
+  ticksLeft: number;         // Ticks until the effect wears off
+  duration: number;          // Ticks the effect lasted when collected
+}
+
+// Rules and look of one kind of power-up
+export interface PowerUpDefinition {
+  kind: PowerUpKind;
+  name: string;
+  icon: string;              // Shown on the board and in the effect bars
+  color: string;             // Countdown bar colour
+  duration: number;          // Ticks the effect lasts once collected
+}
+
 // Game state enum for managing different game phases
-export type GameState = 'READY' | 'PLAYING' | 'PAUSED' | 'GAME_OVER';
+export type GameState = 'READY' | 'PLAYING' | 'PAUSED' | 'STAGE_COMPLETE' | 'GAME_OVER';
+
+// Why a game ended: every human snake crashed, or the time-attack clock ran out
+export type GameOverReason = 'CRASH' | 'TIME_UP';
 
 // Game configuration constants
 export interface GameConfig {
-  BOARD_SIZE: number;        // 20x20 grid
+  BOARD_WIDTH: number;       // Number of columns (20 by default)
+  BOARD_HEIGHT: number;      // Number of rows (20 by default)
   INITIAL_SPEED: number;     // Initial game speed in milliseconds
   SPEED_INCREMENT: number;   // Speed increase per level (decrease in ms)
   POINTS_PER_FOOD: number;   // Points awarded for eating food
@@ -27,23 +147,149 @@ export interface GameConfig {
   MAX_SPEED: number;         // Minimum speed (fastest possible)
 }
 
+// Difficulty presets; custom plays with the player's own values
+export type Difficulty = 'easy' | 'normal' | 'hard' | 'custom';
+
+// Sound volumes from 0 to 100: everything, then each category of sound
+export interface AudioVolumes {
+  master: number;
+  effects: number;           // Game sounds: eating, levelling up, game over
+  interface: number;         // Pausing and menu navigation
+  music: number;
+}
+
+export type AudioCategory = Exclude<keyof AudioVolumes, 'master'>;
+
+// Synthesized sound effects
+export type SoundEffect = 'EAT' | 'LEVEL_UP' | 'NEW_BEST' | 'GAME_OVER' | 'PAUSE' | 'RESUME' | 'MENU';
+
+// How the game board is drawn: one element per cell, or a single canvas for large boards
+export type BoardRenderer = 'dom' | 'canvas';
+
+// Settings kept in localStorage
+export interface GameSettings {
+  soundEnabled: boolean;
+  musicEnabled: boolean;     // Background music, when sound is on
+  volume: AudioVolumes;
+  showGrid: boolean;
+  showAnimations: boolean;
+  difficulty: Difficulty;
+  customConfig: GameConfig;  // Values used by the custom difficulty
+  theme: 'dark' | 'light';
+  renderer: BoardRenderer;
+}
+
 // Snake data structure
 export interface Snake {
   segments: Position[];      // Array of snake body positions
   direction: Direction;      // Current movement direction
-  nextDirection: Direction;  // Queued direction change (prevents 180° turns)
+  directionQueue: Direction[]; // Buffered turns, applied one per tick (prevents 180° turns)
+}
+
+// Look of a player's snake and score panel
+export interface PlayerStyle {
+  name: string;
+  color: string;             // Outline, glow and score colour
+  hueRotate: number;         // Degrees the green snake sprites are rotated by
+}
+
+// A snake on the board together with its own score and effects
+export interface Player {
+  id: number;                // Index in GameData.players, also the input slot
+  name: string;
+  style: PlayerStyle;
+  bot: BotDifficulty | null; // Set for computer-controlled snakes
+  snake: Snake;
+  score: number;
+  alive: boolean;            // False once the snake has crashed
+  activeEffects: ActiveEffect[]; // Running power-up effects
+}
+
+// Snake as drawn by the GameBoard
+export interface BoardSnake {
+  snake: Snake;
+  style: PlayerStyle;
+  ghost?: boolean;           // Drawn see-through while the ghost effect runs
+  eliminated?: boolean;      // Crashed: drawn faded and no longer animated
+  hint?: Hint;               // Practice overlay for this snake
+  racer?: boolean;           // Ghost of the personal best being raced: drawn faint, under the live snakes
+}
+
+// Shape a snake segment is drawn as, worked out from the segments either side of it
+export type SegmentShape = 'HEAD' | 'STRAIGHT' | 'CORNER' | 'TAIL';
+
+// Sprite of one snake segment: its shape, turned from the upright drawing
+export interface SegmentSprite {
+  shape: SegmentShape;
+  rotation: number;          // Degrees clockwise: 0, 90, 180 or 270
+}
+
+// Practice aid for one snake: a safe route to food and a dead-end warning
+export interface Hint {
+  path: Position[];          // Cells from the next step to the food, empty when no safe path exists
+  deadEnd: boolean;          // The current heading leads into a space smaller than the snake
+  trappedCells: Position[];  // Free cells of that space, shown while deadEnd is set
 }
 
 // Game data structure containing all game state
 export interface GameData {
-  snake: Snake;              // Snake object
-  food: Position;            // Current food position
-  score: number;             // Current score
+  players: Player[];         // Player 1 first; versus games add player 2, then any bots
+  foods: Food[];             // Food currently on the board
+  foodEaten: number;         // Pieces of food eaten this game
+  powerUps: PowerUp[];       // Power-ups waiting on the board
+  score: number;             // Highest human player score (the only one in solo games)
   level: number;             // Current level
   gameState: GameState;      // Current game state
+  endReason: GameOverReason | null; // Set once the game is over
   bestScore: number;         // Best score from localStorage
   isPaused: boolean;         // Pause state
   gameSpeed: number;         // Current game speed in ms
+  seed: number;              // Seed the current game was started with
+  setup: GameSetup;          // Options the current game was started with
+  map: LevelDefinition;      // Board layout the current game is played on
+  rngState: number;          // Current state of the seeded random generator
+  tickCount: number;         // Steps played this game
+  inputLog: ReplayInput[];   // Turns accepted from human players, for the replay
+  timeLeft: number | null;   // Milliseconds left on the time-attack clock, null in endless games
+  timePlayed: number;        // Milliseconds played this game
+}
+
+// A turn made before step `tick` (0-based) by a player: [tick, direction, playerId]
+export type ReplayInput = [tick: number, direction: Direction, playerId: number];
+
+// Everything needed to play a game back exactly: the engine is deterministic,
+// so the seed, options and recorded turns reproduce every step
+export interface Replay {
+  version: number;           // Format version, see REPLAY_VERSION
+  seed: number;
+  setup: GameSetup;
+  map: LevelDefinition;
+  config: GameConfig;
+  inputs: ReplayInput[];
+  ticks: number;             // Steps until the game ended
+}
+
+// A game passed on through a share link: a replay to watch, or a challenge
+// to play the same seeded game
+export type SharedGame =
+  | { kind: 'REPLAY'; replay: Replay }
+  | { kind: 'CHALLENGE'; seed: number; setup: GameSetup; map: LevelDefinition; config: GameConfig };
+
+// A finished game kept in the local game history
+export interface GameHistoryEntry {
+  score: number;
+  level: number;
+  snakeLength: number;
+  playTime: number;          // in seconds
+  date: string;              // ISO date the game ended
+  replay?: Replay;           // Missing for games recorded before replays existed
+}
+
+// Best-scoring game played on one seed in one score category, raced as a ghost
+export interface BestRun {
+  category: string;          // Score category, see getScoreCategory
+  score: number;
+  replay: Replay;
 }
 
 // Achievement types for score milestones
@@ -72,26 +318,63 @@ export interface GameStats {
 export type KeyboardEventHandler = (event: KeyboardEvent) => void;
 
 // Direction change handler type
-export type DirectionChangeHandler = (direction: Direction) => void;
+export type DirectionChangeHandler = (direction: Direction, playerId?: number) => void;
+
+// Something that happened in a game, told to the subscribers of the game's events
+export type GameEvent =
+  | { type: 'FOOD_EATEN' }
+  | { type: 'LEVEL_UP'; level: number }
+  | { type: 'NEW_BEST'; score: number }
+  | { type: 'PAUSED' }
+  | { type: 'RESUMED' }
+  | { type: 'STAGE_CLEAR' }
+  | { type: 'GAME_OVER'; reason: GameOverReason };
+
+export type GameEventListener = (event: GameEvent) => void;
 
-// Game action types for state management
+// Game action types for state management (handled by the engine reducer)
 export type GameAction = 
-  | { type: 'START_GAME' }
+  | { type: 'START_GAME'; payload: { seed: number; setup: GameSetup; map: LevelDefinition } }
+  | { type: 'SETUP_GAME'; payload: { setup: GameSetup; map: LevelDefinition } } // Preview options while READY
   | { type: 'PAUSE_GAME' }
   | { type: 'RESUME_GAME' }
   | { type: 'RESET_GAME' }
-  | { type: 'GAME_OVER' }
-  | { type: 'MOVE_SNAKE'; payload: { newHead: Position; ateFood: boolean } }
-  | { type: 'CHANGE_DIRECTION'; payload: Direction }
-  | { type: 'UPDATE_SCORE'; payload: number }
+  | { type: 'GAME_OVER'; payload: GameOverReason }
+  | { type: 'COMPLETE_STAGE' }                        // Campaign: the stage's goal was reached
+  | { type: 'TICK' }                                  // Advance the game by one step
+  | { type: 'ADVANCE_TIMERS' }                        // Count the step, age items and effects, run magnets
+  | { type: 'ELIMINATE_PLAYER'; payload: number }
+  | { type: 'RESPAWN_PLAYER'; payload: number }      // Time attack: bring a crashed snake back at a free start
+  | { type: 'ADJUST_TIME'; payload: number }         // Time attack: add (or with a negative amount, take) milliseconds
+  | { type: 'MOVE_SNAKE'; payload: { playerId: number; newHead: Position; eaten: Food | null; collected: PowerUp | null } }
+  | { type: 'SPAWN_FOOD'; payload: FoodKind }         // Respawn after food of this kind was eaten
+  | { type: 'ACTIVATE_POWER_UP'; payload: { playerId: number; kind: PowerUpKind } }
+  | { type: 'CHANGE_DIRECTION'; payload: { playerId: number; direction: Direction } }
+  | { type: 'UPDATE_SCORE'; payload: { playerId: number; points: number } } // Negative subtracts, never below 0
   | { type: 'LEVEL_UP' }
   | { type: 'UPDATE_BEST_SCORE'; payload: number };
 
+// Interpolation alpha reported by the game loop every frame, read without re-rendering
+export interface InterpolationSource {
+  get: () => number;         // Progress (0-1) from the previous step to the current one
+  set: (alpha: number) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
 // Component props types
 export interface GameBoardProps {
-  snake: Snake;
-  food: Position;
-  boardSize: number;
+  snakes: BoardSnake[];
+  foods?: Food[];
+  powerUps?: PowerUp[];
+  boardWidth: number;
+  boardHeight: number;
+  walls?: Position[];
+  foodSpawns?: Position[];   // Spawn markers shown in the level editor
+  topology?: BoardTopology;
+  interpolation?: InterpolationSource; // Heads slide between cells by this; in place without it
+  showGrid?: boolean;        // Gap and lines between cells
+  showAnimations?: boolean;  // Pulsing food
+  isPlaying?: boolean;       // Food pulses and blinks only while the game runs
   onCellClick?: (position: Position) => void;
 }
 
@@ -102,13 +385,45 @@ export interface GameControlsProps {
   onPause: () => void;
   onResume: () => void;
   onReset: () => void;
+  seedInput: string;
+  onSeedInputChange: (value: string) => void;
+  setup: GameSetup;
+  onSetupChange: (setup: GameSetup) => void;
+  maps: LevelDefinition[];
+  ghostRace: boolean;
+  onGhostRaceChange: (ghostRace: boolean) => void;
+  difficulty: Difficulty;
+  customConfig: GameConfig;  // Values of the custom difficulty
+  onDifficultyChange: (difficulty: Difficulty) => void;
+  onCustomConfigChange: (config: GameConfig) => void;
+  onOpenSettings: () => void;
+}
+
+export interface DifficultyPickerProps {
+  difficulty: Difficulty;
+  customConfig: GameConfig;  // Values of the custom difficulty
+  onDifficultyChange: (difficulty: Difficulty) => void;
+  onCustomConfigChange: (config: GameConfig) => void;
+}
+
+export interface SettingsDialogProps {
+  isOpen: boolean;
+  settings: GameSettings;
+  onSettingChange: <K extends keyof GameSettings>(key: K, value: GameSettings[K]) => void;
+  onReset: () => void;       // Put every setting back to its default
+  onClose: () => void;
 }
 
 export interface ScoreDisplayProps {
   score: number;
   bestScore: number;
   level: number;
+  levelUpScore: number;      // Score per level in the game's configuration
   gameState: GameState;
+  seed: number;
+  players: Player[];
+  raceDelta?: number;        // Score ahead (+) or behind (-) the raced best run at the same tick
+  timeLeft: number | null;   // Time-attack clock in milliseconds
 }
 
 export interface GameOverModalProps {
@@ -116,7 +431,53 @@ export interface GameOverModalProps {
   finalScore: number;
   bestScore: number;
   level: number;
+  players: Player[];
+  winner: Player | null;     // Winner of a game with opponents, null for a draw or a lone snake
+  foodEaten: number;
+  endReason: GameOverReason | null;
   onPlayAgain: () => void;
+  onWatchReplay?: () => void; // Shown when the game's replay is available
+  onClose: () => void;
+}
+
+export interface ReplayViewerProps {
+  replay: Replay;
+  onClose: () => void;
+}
+
+export interface StageSelectProps {
+  stages: CampaignStage[];
+  results: Record<string, StageResult>; // Best results of cleared stages, by stage id
+  onPlay: (stage: CampaignStage) => void;
+  onClose: () => void;
+}
+
+export interface StageCompleteModalProps {
+  isOpen: boolean;
+  stage: CampaignStage;
+  stageNumber: number;       // 1-based position in the campaign
+  score: number;
+  time: number;              // Milliseconds the clear took
+  hasNextStage: boolean;
+  onNextStage: () => void;
+  onRetry: () => void;
+  onStageSelect: () => void;
+}
+
+export interface GameHistoryPanelProps {
+  history: GameHistoryEntry[];
+  onWatch: (replay: Replay) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+export interface LevelEditorProps {
+  initialLevel: LevelDefinition | null; // Level to resume editing, or null for a blank one
+  builtinLevels: LevelDefinition[];
+  savedLevels: LevelDefinition[];
+  onSave: (level: LevelDefinition) => void;
+  onDelete: (levelId: string) => void;
+  onTestPlay: (level: LevelDefinition) => void;
   onClose: () => void;
 }
 
@@ -125,9 +486,120 @@ export interface MobileControlsProps {
   isVisible: boolean;
 }
 
+// Maximum number of turns that can be buffered between ticks
+export const MAX_QUEUED_TURNS = 3;
+
+// Player colours, by player id
+export const PLAYER_STYLES: PlayerStyle[] = [
+  { name: 'PLAYER 1', color: '#00ff00', hueRotate: 0 },
+  { name: 'PLAYER 2', color: '#00bfff', hueRotate: 75 },
+];
+
+// Bot colours, in the order bots join a game
+export const BOT_STYLES: PlayerStyle[] = [
+  { name: 'BOT 1', color: '#ff8c00', hueRotate: 210 },
+  { name: 'BOT 2', color: '#ff00ff', hueRotate: 180 },
+  { name: 'BOT 3', color: '#facc15', hueRotate: 290 },
+];
+
+// Most bots that can join one game
+export const MAX_BOTS = BOT_STYLES.length;
+
+// Shortest the snake can get from shrink food
+export const MIN_SNAKE_LENGTH = 3;
+
+// Power-up spawn and effect tuning
+export const POWER_UP_SPAWN_CHANCE = 0.15;  // Chance to appear each time normal food is eaten
+export const POWER_UP_LIFETIME = 50;        // Ticks a power-up waits on the board
+export const SLOW_MOTION_FACTOR = 1.5;      // Tick length multiplier while slow-motion runs
+export const MAGNET_RANGE = 6;              // Food within this many moves is pulled in
+export const DOUBLE_SCORE_MULTIPLIER = 2;   // Multiplier for points gained while active
+
+// Time attack
+export const TIME_ATTACK_LIMITS = [60, 120, 180];  // Selectable clock lengths, in seconds
+export const TIME_ATTACK_FOOD_BONUS_MS = 2000;     // Added when a player eats food worth points
+export const TIME_ATTACK_CRASH_PENALTY_MS = 10000; // Taken when a player crashes and respawns
+
+// Power-up kinds and their effects
+export const POWER_UP_TYPES: Record<PowerUpKind, PowerUpDefinition> = {
+  GHOST: {
+    kind: 'GHOST',
+    name: 'Ghost',
+    icon: '👻',
+    color: '#e5e7eb',
+    duration: 40,
+  },
+  SLOW_MOTION: {
+    kind: 'SLOW_MOTION',
+    name: 'Slow-Mo',
+    icon: '🐢',
+    color: '#00bfff',
+    duration: 60,
+  },
+  MAGNET: {
+    kind: 'MAGNET',
+    name: 'Magnet',
+    icon: '🧲',
+    color: '#ff0000',
+    duration: 60,
+  },
+  DOUBLE_SCORE: {
+    kind: 'DOUBLE_SCORE',
+    name: 'Double Score',
+    icon: '2×',
+    color: '#facc15',
+    duration: 80,
+  },
+};
+
+// Food kinds and their effects, spawn rules and lifetimes
+export const FOOD_TYPES: Record<FoodKind, FoodTypeDefinition> = {
+  NORMAL: {
+    kind: 'NORMAL',
+    name: 'Frog',
+    scoreMultiplier: 1,
+    growth: 1,
+    lifetime: null,
+    spawnChance: 1,
+    minLevel: 1,
+    minHeadDistance: 0,
+  },
+  BONUS: {
+    kind: 'BONUS',
+    name: 'Golden Frog',
+    scoreMultiplier: 3,
+    growth: 1,
+    lifetime: 40,
+    spawnChance: 0.25,
+    minLevel: 1,
+    minHeadDistance: 5,
+  },
+  SHRINK: {
+    kind: 'SHRINK',
+    name: 'Shrink Berry',
+    scoreMultiplier: 1,
+    growth: -2,
+    lifetime: 60,
+    spawnChance: 0.15,
+    minLevel: 2,
+    minHeadDistance: 0,
+  },
+  POISON: {
+    kind: 'POISON',
+    name: 'Poison Mushroom',
+    scoreMultiplier: -2,
+    growth: 0,
+    lifetime: 80,
+    spawnChance: 0.2,
+    minLevel: 2,
+    minHeadDistance: 3,
+  },
+};
+
 // Default game configuration
 export const DEFAULT_GAME_CONFIG: GameConfig = {
-  BOARD_SIZE: 20,
+  BOARD_WIDTH: 20,
+  BOARD_HEIGHT: 20,
   INITIAL_SPEED: 200,
   SPEED_INCREMENT: 10,
   POINTS_PER_FOOD: 10,
@@ -135,24 +607,101 @@ export const DEFAULT_GAME_CONFIG: GameConfig = {
   MAX_SPEED: 50,
 };
 
+// Game configuration of each preset difficulty
+export const DIFFICULTY_PRESETS: Record<Exclude<Difficulty, 'custom'>, GameConfig> = {
+  easy: {
+    ...DEFAULT_GAME_CONFIG,
+    INITIAL_SPEED: 260,
+    SPEED_INCREMENT: 8,
+    POINTS_PER_FOOD: 5,
+    LEVEL_UP_SCORE: 60,
+    MAX_SPEED: 90,
+  },
+  normal: DEFAULT_GAME_CONFIG,
+  hard: {
+    ...DEFAULT_GAME_CONFIG,
+    INITIAL_SPEED: 140,
+    SPEED_INCREMENT: 12,
+    POINTS_PER_FOOD: 15,
+    LEVEL_UP_SCORE: 40,
+    MAX_SPEED: 40,
+  },
+};
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  soundEnabled: true,
+  musicEnabled: false,
+  volume: { master: 80, effects: 80, interface: 60, music: 50 },
+  showGrid: true,
+  showAnimations: true,
+  difficulty: 'normal',
+  customConfig: DEFAULT_GAME_CONFIG,
+  theme: 'dark',
+  renderer: 'dom',
+};
+
+// Id of the wall-free map that uses the configured board size
+export const OPEN_MAP_ID = 'open';
+
+// Default options for a new game
+export const DEFAULT_GAME_SETUP: GameSetup = {
+  mode: 'SOLO',
+  bots: 0,
+  botDifficulty: 'SAFE_PATH',
+  practice: false,
+  topology: 'WALLS',
+  mapId: OPEN_MAP_ID,
+};
+
 // Initial game state
 export const INITIAL_GAME_DATA: GameData = {
-  snake: {
-    segments: [
-      { x: 10, y: 10 },
-      { x: 9, y: 10 },
-      { x: 8, y: 10 }
-    ],
-    direction: 'RIGHT',
-    nextDirection: 'RIGHT',
-  },
-  food: { x: 15, y: 15 },
+  players: [
+    {
+      id: 0,
+      name: 'PLAYER 1',
+      style: PLAYER_STYLES[0],
+      bot: null,
+      snake: {
+        segments: [
+          { x: 10, y: 10 },
+          { x: 9, y: 10 },
+          { x: 8, y: 10 }
+        ],
+        direction: 'RIGHT',
+        directionQueue: [],
+      },
+      score: 0,
+      alive: true,
+      activeEffects: [],
+    },
+  ],
+  foods: [{ kind: 'NORMAL', position: { x: 15, y: 15 }, ticksLeft: null }],
+  foodEaten: 0,
+  powerUps: [],
   score: 0,
   level: 1,
   gameState: 'READY',
+  endReason: null,
   bestScore: 0,
   isPaused: false,
   gameSpeed: DEFAULT_GAME_CONFIG.INITIAL_SPEED,
+  seed: 0,
+  setup: DEFAULT_GAME_SETUP,
+  map: {
+    id: OPEN_MAP_ID,
+    name: 'Open',
+    width: DEFAULT_GAME_CONFIG.BOARD_WIDTH,
+    height: DEFAULT_GAME_CONFIG.BOARD_HEIGHT,
+    walls: [],
+    foodSpawns: [],
+    start: { x: 10, y: 10 },
+    startDirection: 'RIGHT',
+  },
+  rngState: 0,
+  tickCount: 0,
+  inputLog: [],
+  timeLeft: null,
+  timePlayed: 0,
 };
 
 // Achievement definitions
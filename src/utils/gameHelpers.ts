@@ -5,7 +5,20 @@
  * and helper methods used throughout the Snake game.
  */
 
-import { Position, Direction, GameConfig, Snake } from '../types/game.types';
+import { 
+  Position, 
+  Direction, 
+  GameConfig, 
+  GameSetup, 
+  Difficulty,
+  Snake, 
+  SegmentSprite, 
+  RandomSource, 
+  BoardTopology, 
+  BoardDimensions, 
+  MIN_SNAKE_LENGTH,
+  OPEN_MAP_ID 
+} from '../types/game.types';
 
 /**
  * Check if two positions are equal
@@ -14,11 +27,18 @@ export const positionsEqual = (pos1: Position, pos2: Position): boolean => {
   return pos1.x === pos2.x && pos1.y === pos2.y;
 };
 
+/**
+ * Get the board dimensions from a game configuration
+ */
+export const getBoardDimensions = (config: GameConfig): BoardDimensions => {
+  return { width: config.BOARD_WIDTH, height: config.BOARD_HEIGHT };
+};
+
 /**
  * Check if a position is within the game board bounds
  */
-export const isPositionInBounds = (position: Position, boardSize: number): boolean => {
-  return position.x >= 0 && position.x < boardSize && position.y >= 0 && position.y < boardSize;
+export const isPositionInBounds = (position: Position, board: BoardDimensions): boolean => {
+  return position.x >= 0 && position.x < board.width && position.y >= 0 && position.y < board.height;
 };
 
 /**
@@ -28,58 +48,126 @@ export const isPositionOnSnake = (position: Position, snake: Snake): boolean =>
   return snake.segments.some(segment => positionsEqual(segment, position));
 };
 
+/**
+ * Check if a position is blocked by a static wall
+ */
+export const isPositionOnWall = (position: Position, walls: Position[]): boolean => {
+  return walls.some(wall => positionsEqual(wall, position));
+};
+
 /**
  * Generate a random position within the game board
  */
-export const generateRandomPosition = (boardSize: number): Position => {
+export const generateRandomPosition = (board: BoardDimensions, random: RandomSource): Position => {
   return {
-    x: Math.floor(Math.random() * boardSize),
-    y: Math.floor(Math.random() * boardSize),
+    x: Math.floor(random() * board.width),
+    y: Math.floor(random() * board.height),
   };
 };
 
 /**
- * Generate a random food position that doesn't overlap with the snake
+ * Generate a random food position that doesn't overlap with the snake or walls
+ * (or any other blocked cells passed as walls, such as other food).
+ * When fixed spawn cells are given, one of the free ones is used instead.
+ * Returns null when the board has no free cell left.
  */
-export const generateFoodPosition = (snake: Snake, boardSize: number): Position => {
-  let foodPosition: Position;
-  do {
-    foodPosition = generateRandomPosition(boardSize);
-  } while (isPositionOnSnake(foodPosition, snake));
-  
-  return foodPosition;
+export const generateFoodPosition = (
+  snake: Snake,
+  board: BoardDimensions,
+  random: RandomSource,
+  walls: Position[] = [],
+  spawns: Position[] = []
+): Position | null => {
+  const blocked = new Set([...snake.segments, ...walls].map(cell => `${cell.x},${cell.y}`));
+  const isFree = (cell: Position) => !blocked.has(`${cell.x},${cell.y}`);
+
+  const candidates = spawns.filter(isFree);
+  if (candidates.length === 0) {
+    for (let y = 0; y < board.height; y++) {
+      for (let x = 0; x < board.width; x++) {
+        if (isFree({ x, y })) candidates.push({ x, y });
+      }
+    }
+  }
+
+  if (candidates.length === 0) return null;
+  return candidates[Math.floor(random() * candidates.length)];
+};
+
+/**
+ * Wrap a position onto the board, re-entering from the opposite edge
+ */
+export const wrapPosition = (position: Position, board: BoardDimensions): Position => {
+  return {
+    x: ((position.x % board.width) + board.width) % board.width,
+    y: ((position.y % board.height) + board.height) % board.height,
+  };
 };
 
 /**
- * Calculate the next position based on current position and direction
+ * Calculate the next position based on current position and direction.
+ * On a wrap-around board the position re-enters from the opposite edge.
  */
-export const getNextPosition = (position: Position, direction: Direction): Position => {
+export const getNextPosition = (
+  position: Position,
+  direction: Direction,
+  board?: BoardDimensions,
+  topology: BoardTopology = 'WALLS'
+): Position => {
+  let next: Position;
   switch (direction) {
     case 'UP':
-      return { x: position.x, y: position.y - 1 };
+      next = { x: position.x, y: position.y - 1 };
+      break;
     case 'DOWN':
-      return { x: position.x, y: position.y + 1 };
+      next = { x: position.x, y: position.y + 1 };
+      break;
     case 'LEFT':
-      return { x: position.x - 1, y: position.y };
+      next = { x: position.x - 1, y: position.y };
+      break;
     case 'RIGHT':
-      return { x: position.x + 1, y: position.y };
+      next = { x: position.x + 1, y: position.y };
+      break;
     default:
       return position;
   }
+
+  return topology === 'WRAP' && board !== undefined ? wrapPosition(next, board) : next;
 };
 
 /**
- * Check if a direction change is valid (prevents 180° turns)
+ * Get the direction pointing the opposite way
  */
-export const isValidDirectionChange = (currentDirection: Direction, newDirection: Direction): boolean => {
+export const getOppositeDirection = (direction: Direction): Direction => {
   const oppositeDirections: Record<Direction, Direction> = {
     'UP': 'DOWN',
     'DOWN': 'UP',
     'LEFT': 'RIGHT',
     'RIGHT': 'LEFT',
   };
-  
-  return newDirection !== oppositeDirections[currentDirection];
+
+  return oppositeDirections[direction];
+};
+
+/**
+ * Check if a direction change is valid (prevents 180° turns)
+ */
+export const isValidDirectionChange = (currentDirection: Direction, newDirection: Direction): boolean => {
+  return newDirection !== getOppositeDirection(currentDirection);
+};
+
+/**
+ * Get the direction the snake will move in on its next step
+ */
+export const getNextDirection = (snake: Snake): Direction => {
+  return snake.directionQueue[0] ?? snake.direction;
+};
+
+/**
+ * Get the direction of the last buffered turn, or the current heading
+ */
+export const getLastQueuedDirection = (snake: Snake): Direction => {
+  return snake.directionQueue[snake.directionQueue.length - 1] ?? snake.direction;
 };
 
 /**
@@ -91,11 +179,42 @@ export const calculateGameSpeed = (level: number, config: GameConfig): number =>
 };
 
 /**
- * Check if the snake has collided with walls
+ * Check if the snake has collided with walls (never on a wrap-around board)
  */
-export const checkWallCollision = (snake: Snake, boardSize: number): boolean => {
+export const checkWallCollision = (snake: Snake, board: BoardDimensions, topology: BoardTopology = 'WALLS'): boolean => {
+  if (topology === 'WRAP') return false;
   const head = snake.segments[0];
-  return !isPositionInBounds(head, boardSize);
+  return !isPositionInBounds(head, board);
+};
+
+/**
+ * Check if the snake has run into a static wall
+ */
+export const checkObstacleCollision = (snake: Snake, walls: Position[]): boolean => {
+  const head = snake.segments[0];
+  return isPositionOnWall(head, walls);
+};
+
+/**
+ * Count down tick-based lifetimes by one, dropping anything that runs out.
+ * Items with a null lifetime never expire.
+ */
+export const countDownTicks = <T extends { ticksLeft: number | null }>(items: T[]): T[] => {
+  return items
+    .map(item => (item.ticksLeft === null ? item : { ...item, ticksLeft: item.ticksLeft - 1 }))
+    .filter(item => item.ticksLeft === null || item.ticksLeft > 0);
+};
+
+/**
+ * Move the snake's segments onto a new head. Positive growth keeps the tail,
+ * negative growth removes that many extra tail segments (down to MIN_SNAKE_LENGTH).
+ */
+export const moveSegments = (segments: Position[], newHead: Position, growth: number = 0): Position[] => {
+  const moved = [newHead, ...segments];
+  const length = growth > 0
+    ? moved.length
+    : Math.max(segments.length + growth, Math.min(segments.length, MIN_SNAKE_LENGTH));
+  return moved.slice(0, length);
 };
 
 /**
@@ -116,11 +235,35 @@ export const checkFoodCollision = (snake: Snake, food: Position): boolean => {
 };
 
 /**
- * Calculate the distance between two positions (for AI or advanced features)
+ * Get the offset from one position to another. On a wrap-around board each
+ * axis goes the shorter way, across the edge when that's closer.
+ */
+export const getPositionDelta = (
+  from: Position,
+  to: Position,
+  board?: BoardDimensions,
+  topology: BoardTopology = 'WALLS'
+): Position => {
+  let dx = to.x - from.x;
+  let dy = to.y - from.y;
+  if (topology === 'WRAP' && board !== undefined) {
+    if (Math.abs(dx) > board.width / 2) dx -= Math.sign(dx) * board.width;
+    if (Math.abs(dy) > board.height / 2) dy -= Math.sign(dy) * board.height;
+  }
+  return { x: dx, y: dy };
+};
+
+/**
+ * Calculate the distance between two positions (for AI or advanced features),
+ * the shorter way across the edges on a wrap-around board
  */
-export const calculateDistance = (pos1: Position, pos2: Position): number => {
-  const dx = pos1.x - pos2.x;
-  const dy = pos1.y - pos2.y;
+export const calculateDistance = (
+  pos1: Position,
+  pos2: Position,
+  board?: BoardDimensions,
+  topology: BoardTopology = 'WALLS'
+): number => {
+  const { x: dx, y: dy } = getPositionDelta(pos1, pos2, board, topology);
   return Math.sqrt(dx * dx + dy * dy);
 };
 
@@ -140,6 +283,70 @@ export const getDirectionToPosition = (from: Position, to: Position): Direction
   return null;
 };
 
+/**
+ * Get the direction a neighbouring cell lies in, stepping across the edge
+ * on a wrap-around board; null when the cells aren't next to each other
+ */
+export const getNeighborDirection = (
+  from: Position,
+  to: Position,
+  board: BoardDimensions,
+  topology: BoardTopology = 'WALLS'
+): Direction | null => {
+  const directions: Direction[] = ['UP', 'RIGHT', 'DOWN', 'LEFT'];
+  return directions.find(direction => positionsEqual(getNextPosition(from, direction, board, topology), to)) ?? null;
+};
+
+// Turn (degrees clockwise) that points an upright sprite in each direction
+const DIRECTION_ROTATIONS: Record<Direction, number> = { UP: 0, RIGHT: 90, DOWN: 180, LEFT: 270 };
+
+/**
+ * Work out the sprite of every segment of a snake from the segments either
+ * side of it. Sprites are drawn joining the bottom edge of their cell: the
+ * head faces the snake's heading, the tail points away from the body, and
+ * the body runs straight or turns a corner (drawn joining bottom and right).
+ */
+export const getSegmentSprites = (
+  snake: Snake,
+  board: BoardDimensions,
+  topology: BoardTopology = 'WALLS'
+): SegmentSprite[] => {
+  const sprites: SegmentSprite[] = [];
+
+  snake.segments.forEach((segment, index) => {
+    if (index === 0) {
+      sprites.push({ shape: 'HEAD', rotation: DIRECTION_ROTATIONS[snake.direction] });
+      return;
+    }
+
+    const previous = snake.segments[index - 1];
+    const towardHead = getNeighborDirection(segment, previous, board, topology);
+    const next = snake.segments[index + 1];
+    const towardTail = next ? getNeighborDirection(segment, next, board, topology) : null;
+
+    if (positionsEqual(segment, previous)) {
+      // Stacked under the segment before, so drawn the same
+      sprites.push(sprites[index - 1]);
+    } else if (!towardHead) {
+      // Cut off from the segment before: keep to its line
+      sprites.push({ shape: 'STRAIGHT', rotation: sprites[index - 1].rotation % 180 });
+    } else if (!towardTail) {
+      sprites.push({ shape: 'TAIL', rotation: DIRECTION_ROTATIONS[getOppositeDirection(towardHead)] });
+    } else if (towardTail === getOppositeDirection(towardHead)) {
+      sprites.push({ shape: 'STRAIGHT', rotation: DIRECTION_ROTATIONS[towardHead] % 180 });
+    } else {
+      // The upright corner joins DOWN and RIGHT: turn it until its DOWN side
+      // lands on whichever of the two sides comes a quarter turn after the other
+      const headTurn = DIRECTION_ROTATIONS[towardHead];
+      const tailTurn = DIRECTION_ROTATIONS[towardTail];
+      const lastSide = (headTurn + 90) % 360 === tailTurn ? tailTurn : headTurn;
+      sprites.push({ shape: 'CORNER', rotation: (lastSide + 180) % 360 });
+    }
+  });
+
+  return sprites;
+};
+
 /**
  * Format time in seconds to MM:SS format
  */
@@ -159,17 +366,17 @@ export const formatScore = (score: number): string => {
 /**
  * Calculate the percentage of board filled by snake
  */
-export const calculateBoardFillPercentage = (snakeLength: number, boardSize: number): number => {
-  const totalCells = boardSize * boardSize;
+export const calculateBoardFillPercentage = (snakeLength: number, board: BoardDimensions): number => {
+  const totalCells = board.width * board.height;
   return (snakeLength / totalCells) * 100;
 };
 
 /**
  * Get a random direction (for AI or demo mode)
  */
-export const getRandomDirection = (): Direction => {
+export const getRandomDirection = (random: RandomSource): Direction => {
   const directions: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
-  return directions[Math.floor(Math.random() * directions.length)];
+  return directions[Math.floor(random() * directions.length)];
 };
 
 /**
@@ -179,6 +386,29 @@ export const isGamePlayable = (gameState: string): boolean => {
   return gameState === 'READY' || gameState === 'PLAYING' || gameState === 'PAUSED';
 };
 
+// Category part that comes from the game's setup
+const getSetupCategory = (setup: GameSetup): string => {
+  if (setup.stageId) return `campaign-${setup.stageId}`;
+
+  const topology = setup.topology === 'WRAP' ? 'wrap' : 'classic';
+  const map = setup.mapId === OPEN_MAP_ID ? topology : `${topology}-${setup.mapId}`;
+  const mode = setup.mode === 'VERSUS' ? `${map}-versus` : map;
+  const opponents = setup.bots > 0 ? `${mode}-bots${setup.bots}-${setup.botDifficulty.toLowerCase()}` : mode;
+  const category = setup.timeLimit ? `${opponents}-timed${setup.timeLimit}` : opponents;
+  return setup.practice ? `${category}-practice` : category;
+};
+
+/**
+ * Get the category a game's score is ranked in, so modes, maps, bot
+ * line-ups, time-attack lengths, campaign stages, practice games and
+ * difficulties don't share records. Versus games rank the higher of the
+ * two human scores.
+ */
+export const getScoreCategory = (setup: GameSetup, difficulty: Difficulty = 'normal'): string => {
+  const ranked = getSetupCategory(setup);
+  return difficulty === 'normal' ? ranked : `${ranked}-${difficulty}`;
+};
+
 /**
  * Get the next level based on current score
  */
@@ -196,39 +426,8 @@ export const getScoreForNextLevel = (currentLevel: number, levelUpScore: number)
 /**
  * Generate a unique ID for game sessions
  */
-export const generateGameId = (): string => {
-  return `snake_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-};
-
-/**
- * Debounce function for performance optimization
- */
-export const debounce = <T extends (...args: any[]) => any>(
-  func: T,
-  wait: number
-): ((...args: Parameters<T>) => void) => {
-  let timeout: NodeJS.Timeout;
-  return (...args: Parameters<T>) => {
-    clearTimeout(timeout);
-    timeout = setTimeout(() => func(...args), wait);
-  };
-};
-
-/**
- * Throttle function for performance optimization
- */
-export const throttle = <T extends (...args: any[]) => any>(
-  func: T,
-  limit: number
-): ((...args: Parameters<T>) => void) => {
-  let inThrottle: boolean;
-  return (...args: Parameters<T>) => {
-    if (!inThrottle) {
-      func(...args);
-      inThrottle = true;
-      setTimeout(() => (inThrottle = false), limit);
-    }
-  };
+export const generateGameId = (random: RandomSource, timestamp: number = Date.now()): string => {
+  return `snake_${timestamp}_${random().toString(36).substr(2, 9)}`;
 };
 
 /**
@@ -250,8 +449,18 @@ export const getResponsiveGridSize = (): number => {
 /**
  * Calculate the optimal cell size for the current screen
  */
-export const calculateCellSize = (boardSize: number, containerWidth: number): number => {
+export const calculateCellSize = (columns: number, containerWidth: number): number => {
   const padding = 40; // Account for padding and borders
   const availableWidth = containerWidth - padding;
-  return Math.floor(availableWidth / boardSize);
+  return Math.floor(availableWidth / columns);
+};
+
+/**
+ * Calculate the cell size of a board on this screen, letting wide boards
+ * use more of it
+ */
+export const getBoardCellSize = (boardWidth: number, boardHeight: number): number => {
+  const aspect = Math.min(Math.max(boardWidth / boardHeight, 1), 1.5);
+  const containerWidth = Math.min(window.innerWidth - 40, 600 * aspect);
+  return calculateCellSize(boardWidth, containerWidth);
 };
@@ -11,12 +11,12 @@ export default {
         'gaming': ['Orbitron', 'JetBrains Mono', 'monospace'],
       },
       colors: {
-        'neon-green': '#00ff00',
-        'neon-blue': '#00bfff',
-        'neon-red': '#ff0000',
-        'dark-bg': '#0a0a0a',
-        'dark-panel': '#1a1a1a',
-        'dark-border': '#333333',
+        'neon-green': 'var(--color-neon-green)',
+        'neon-blue': 'var(--color-neon-blue)',
+        'neon-red': 'var(--color-neon-red)',
+        'dark-bg': 'var(--color-bg)',
+        'dark-panel': 'var(--color-panel)',
+        'dark-border': 'var(--color-border)',
       },
       animation: {
         'pulse-slow': 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite',